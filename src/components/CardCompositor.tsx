@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { CardSources, exportCardPng, renderCard } from '@/lib/cardCompositor';
+
+interface CardCompositorProps {
+  sources: CardSources;
+  fileName?: string;
+}
+
+const CardCompositor: React.FC<CardCompositorProps> = ({ sources, fileName = 'og-card.png' }) => {
+  const { toast } = useToast();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [rendering, setRendering] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const { inner, outer, overlay } = sources;
+  const hasAnyLayer = !!(inner || outer || overlay);
+
+  // Re-render the card whenever one of the layers changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let cancelled = false;
+    setRendering(true);
+    // Render off-screen first so a slower, outdated render never paints over a newer one
+    const offscreen = document.createElement('canvas');
+    renderCard(offscreen, { inner, outer, overlay })
+      .then(() => {
+        if (cancelled) return;
+        canvas.width = offscreen.width;
+        canvas.height = offscreen.height;
+        canvas.getContext('2d')?.drawImage(offscreen, 0, 0);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          console.error('Error rendering card preview:', error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setRendering(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inner, outer, overlay]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await exportCardPng(sources);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting card:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the card as PNG",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative w-full rounded-md overflow-hidden border border-border bg-black/30">
+        <canvas ref={canvasRef} className="w-full h-auto block" />
+        {rendering && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!hasAnyLayer && (
+          <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">
+            Preview not available - upload files first
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between items-center">
+        <div className="text-xs text-muted-foreground">
+          Approximate layout rendered locally - the og.yodl.me card may place layers differently
+        </div>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex items-center text-xs"
+          onClick={handleExport}
+          disabled={!hasAnyLayer || exporting}
+        >
+          {exporting ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-3 w-3 mr-1" />
+          )}
+          Export PNG
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CardCompositor;
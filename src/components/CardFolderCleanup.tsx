@@ -0,0 +1,342 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Search, Trash2 } from "lucide-react";
+import { useToast } from '@/components/ui/use-toast';
+import { CardFolder, GitHubService } from '@/lib/githubService';
+import { ENSService } from '@/lib/ensService';
+import { getEnsNetworkForName } from '@/lib/ensNetworks';
+import { createNameIndexer } from '@/lib/nameIndexer';
+import { CdnCardLocation, parseJsDelivrBaseUrl } from '@/lib/cdnUrl';
+
+interface CardFolderCleanupProps {
+  owner: string;
+  repo: string;
+  currentFolder?: string; // Folder of the card being edited, never offered for deletion
+  onDeleted?: (folders: string[]) => void;
+}
+
+type FolderStatus = 'in-use' | 'current' | 'orphaned' | 'unchecked';
+
+// The card folder a name's me.yodl record points at, null when it has no jsDelivr og.baseUrl
+interface NameReference {
+  name: string;
+  location: CdnCardLocation | null;
+}
+
+const CardFolderCleanup: React.FC<CardFolderCleanupProps> = ({ owner, repo, currentFolder, onDeleted }) => {
+  const { toast } = useToast();
+  const { address, isConnected } = useAccount();
+  const githubService = useMemo(() => new GitHubService(), []);
+  const ensService = useMemo(() => new ENSService(), []);
+
+  const [open, setOpen] = useState(false);
+  const [ensName, setEnsName] = useState(''); // Extra name to check besides the wallet's own
+  const [ownedNames, setOwnedNames] = useState<string[]>([]);
+  const [namesError, setNamesError] = useState<string | null>(null);
+  const [references, setReferences] = useState<NameReference[] | null>(null); // Null until every name was read
+  const [checkingEns, setCheckingEns] = useState(false);
+  const [folders, setFolders] = useState<CardFolder[]>([]);
+  const [loadingFolders, setLoadingFolders] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  // Every name the connected wallet holds may use a folder in this repository
+  useEffect(() => {
+    if (!open || !isConnected || !address) return;
+
+    let cancelled = false;
+    setNamesError(null);
+    createNameIndexer().indexer.listNames(address)
+      .then(names => {
+        if (cancelled) return;
+        setOwnedNames(names.map(entry => entry.name));
+        setReferences(null);
+      })
+      .catch(error => {
+        console.error('Error listing ENS names:', error);
+        if (!cancelled) setNamesError(error instanceof Error ? error.message : 'Could not list your names');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isConnected, address]);
+
+  const namesToCheck = useMemo(
+    () => Array.from(new Set([...ownedNames, ...(ensName.trim() ? [ensName.trim()] : [])])),
+    [ownedNames, ensName]
+  );
+
+  // References into this repository; those elsewhere say nothing about its folders
+  // Without the full list of owned names, a folder another name uses could look orphaned
+  const repoReferences = useMemo(() => (namesError ? [] : references || [])
+    .map(reference => reference.location)
+    .filter((location): location is CdnCardLocation => !!location &&
+      location.owner.toLowerCase() === owner.toLowerCase() &&
+      location.repo.toLowerCase() === repo.toLowerCase()),
+  [namesError, references, owner, repo]);
+
+  const getStatus = useCallback((folder: CardFolder): FolderStatus => {
+    if (folder.name === currentFolder) {
+      return 'current';
+    }
+    // Nothing counts as orphaned until every name was checked and one of them uses this repository
+    if (repoReferences.length === 0) {
+      return 'unchecked';
+    }
+    return repoReferences.some(location => location.folder === folder.name) ? 'in-use' : 'orphaned';
+  }, [repoReferences, currentFolder]);
+
+  const loadFolders = useCallback(async () => {
+    setLoadingFolders(true);
+    try {
+      setFolders(await githubService.listCardFolders(owner, repo));
+    } catch (error) {
+      console.error('Error loading card folders:', error);
+      toast({
+        title: "Could not list cards",
+        description: `Failed to read the og/ folder of ${owner}/${repo}`,
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingFolders(false);
+    }
+  }, [githubService, owner, repo, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadFolders();
+    }
+  }, [open, loadFolders]);
+
+  // Pre-select orphaned folders whenever the folder list or ENS reference changes
+  useEffect(() => {
+    setSelected(folders.filter(folder => getStatus(folder) === 'orphaned').map(folder => folder.name));
+  }, [folders, getStatus]);
+
+  const handleEnsNameChange = (name: string) => {
+    setEnsName(name);
+    // A check made for other names says nothing about this one
+    setReferences(null);
+  };
+
+  const readReference = async (name: string): Promise<NameReference> => {
+    const record = await ensService.getTextRecord(name, 'me.yodl', getEnsNetworkForName(name).chain.id);
+    const baseUrl = record ? JSON.parse(record)?.og?.baseUrl : null;
+    return { name, location: typeof baseUrl === 'string' ? parseJsDelivrBaseUrl(baseUrl) : null };
+  };
+
+  const handleCheckEns = async () => {
+    if (namesToCheck.length === 0) return;
+
+    setReferences(null);
+    setCheckingEns(true);
+    try {
+      // A single unreadable record could hide a folder that is still in use, so all must succeed
+      const checked = await Promise.all(namesToCheck.map(readReference));
+      setReferences(checked);
+      const inRepo = checked.filter(reference => reference.location &&
+        reference.location.owner.toLowerCase() === owner.toLowerCase() &&
+        reference.location.repo.toLowerCase() === repo.toLowerCase());
+      toast({
+        title: inRepo.length > 0 ? "ENS records checked" : "No card in this repository",
+        description: inRepo.length > 0
+          ? `${inRepo.map(reference => reference.name).join(', ')} use folders in ${owner}/${repo}`
+          : `None of ${checked.map(reference => reference.name).join(', ')} point at ${owner}/${repo}, so no folders can be deleted`,
+      });
+    } catch (error) {
+      console.error('Error reading ENS records:', error);
+      setReferences(null);
+      toast({
+        title: "Could not read ENS records",
+        description: "A me.yodl record could not be fetched or is not valid JSON",
+        variant: "destructive"
+      });
+    } finally {
+      setCheckingEns(false);
+    }
+  };
+
+  const toggleSelected = (name: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, name] : prev.filter(n => n !== name));
+  };
+
+  const handleDelete = async () => {
+    if (repoReferences.length === 0 || selected.length === 0) return;
+
+    setDeleting(true);
+    try {
+      const result = await githubService.deleteCardFolders(owner, repo, selected);
+      toast({
+        title: "Folders deleted",
+        description: `Removed ${selected.length} folder(s) in commit ${result.commitSha.substring(0, 7)}`,
+      });
+      onDeleted?.(selected);
+      setConfirmOpen(false);
+      await loadFolders();
+    } catch (error) {
+      console.error('Error deleting folders:', error);
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "An error occurred while deleting folders",
+        variant: "destructive"
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const renderStatus = (status: FolderStatus) => {
+    switch (status) {
+      case 'in-use':
+        return <Badge className="bg-green-500 hover:bg-green-500">In use</Badge>;
+      case 'current':
+        return <Badge variant="secondary">Current card</Badge>;
+      case 'unchecked':
+        return <Badge variant="outline">Not checked</Badge>;
+      default:
+        return <Badge variant="outline" className="text-amber-600 border-amber-300">Orphaned</Badge>;
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2" disabled={!owner || !repo}>
+            <Trash2 className="h-4 w-4" />
+            Clean Up Folders
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Clean Up Card Folders</DialogTitle>
+            <DialogDescription>
+              Check which folders in {owner}/{repo}/og are still referenced by your ENS names and delete the rest.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="cleanup-ens">Another ENS name (optional)</Label>
+                <Input
+                  id="cleanup-ens"
+                  placeholder="yourname.eth"
+                  value={ensName}
+                  onChange={(e) => handleEnsNameChange(e.target.value)}
+                />
+              </div>
+              <Button variant="secondary" onClick={handleCheckEns} disabled={namesToCheck.length === 0 || checkingEns}>
+                {checkingEns ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+                Check Records
+              </Button>
+            </div>
+            {namesToCheck.length > 0 && (
+              <p className="text-xs text-muted-foreground">Names checked: {namesToCheck.join(', ')}</p>
+            )}
+            {repoReferences.length === 0 && (
+              <p className="text-xs text-amber-600">
+                {namesError
+                  ? `Your ENS names could not be listed (${namesError}), so no folder can be deleted.`
+                  : references
+                    ? `None of these names use ${owner}/${repo}, so no folder is marked orphaned.`
+                    : 'Check your ENS records first. Folders can only be deleted once every name was read and one points at this repository.'}
+              </p>
+            )}
+
+            <div className="space-y-2 max-h-72 overflow-auto">
+              {loadingFolders ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                  <span className="text-sm">Loading folders...</span>
+                </div>
+              ) : folders.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No card folders found</p>
+              ) : (
+                folders.map(folder => {
+                  const status = getStatus(folder);
+                  return (
+                    <div key={folder.path} className="flex items-center justify-between p-2 border rounded-md">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`cleanup-${folder.name}`}
+                          checked={selected.includes(folder.name)}
+                          onCheckedChange={(checked) => toggleSelected(folder.name, checked === true)}
+                          disabled={status !== 'orphaned'}
+                        />
+                        <Label htmlFor={`cleanup-${folder.name}`} className="font-mono text-xs">
+                          og/{folder.name}
+                        </Label>
+                      </div>
+                      {renderStatus(status)}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+            <Button
+              variant="destructive"
+              onClick={() => setConfirmOpen(true)}
+              disabled={repoReferences.length === 0 || selected.length === 0}
+            >
+              Delete {selected.length} Folder{selected.length === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete these folders?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The following folders will be removed from {owner}/{repo} in a single commit:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="font-mono text-xs bg-muted rounded-md p-3 max-h-48 overflow-auto space-y-1">
+            {selected.map(name => (
+              <li key={name}>og/{name}</li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CardFolderCleanup;
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { GalleryHorizontalEnd, ImageOff, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { CardFolder, GitHubOwner, GitHubService } from '@/lib/githubService';
+import { FolderPath, ImageFile } from '@/lib/types';
+import GitHubLogin from './GitHubLogin';
+import RepositoryPicker from './RepositoryPicker';
+
+interface CardGalleryProps {
+  onCardLoad: (files: ImageFile[], folderPath: FolderPath) => void;
+}
+
+const CardGallery: React.FC<CardGalleryProps> = ({ onCardLoad }) => {
+  const { toast } = useToast();
+  const githubService = useMemo(() => new GitHubService(), []);
+  const [open, setOpen] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [owners, setOwners] = useState<GitHubOwner[]>([]);
+  const [selectedOwner, setSelectedOwner] = useState('');
+  const [selectedRepo, setSelectedRepo] = useState(''); // Repository name within selectedOwner
+  const [folders, setFolders] = useState<CardFolder[]>([]);
+  const [loadingFolders, setLoadingFolders] = useState(false);
+  const [loadingFolder, setLoadingFolder] = useState<string | null>(null);
+  const [brokenThumbnails, setBrokenThumbnails] = useState<{ [path: string]: boolean }>({});
+
+  // Load the accounts and organizations that can own card repositories once the dialog is open and GitHub is connected
+  useEffect(() => {
+    if (!open || !isAuthenticated) return;
+
+    let cancelled = false;
+    githubService.listOwners()
+      .then(result => {
+        if (cancelled) return;
+        setOwners(result);
+        setSelectedOwner(prev => result.some(owner => owner.login === prev) ? prev : result[0].login);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading repository owners:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your GitHub accounts and organizations",
+          variant: "destructive"
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isAuthenticated, githubService, toast]);
+
+  const handleOwnerChange = (owner: string) => {
+    setSelectedOwner(owner);
+    setSelectedRepo('');
+    setFolders([]);
+  };
+
+  const loadFolders = useCallback(async () => {
+    if (!selectedOwner || !selectedRepo) return;
+
+    setLoadingFolders(true);
+    setBrokenThumbnails({});
+    try {
+      setFolders(await githubService.listCardFolders(selectedOwner, selectedRepo));
+    } catch (error) {
+      console.error('Error loading card folders:', error);
+      setFolders([]);
+      toast({
+        title: "Could not list cards",
+        description: `Failed to read the og/ folder of ${selectedOwner}/${selectedRepo}`,
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingFolders(false);
+    }
+  }, [selectedOwner, selectedRepo, githubService, toast]);
+
+  useEffect(() => {
+    if (open && isAuthenticated) {
+      loadFolders();
+    }
+  }, [open, isAuthenticated, loadFolders]);
+
+  const handlePick = async (folder: CardFolder) => {
+    const owner = selectedOwner;
+    const repo = selectedRepo;
+    setLoadingFolder(folder.path);
+    try {
+      const files = await githubService.getCardFolderAssets(owner, repo, folder.name);
+      const missing = files.filter(f => !f.preview).map(f => `${f.name}.png`);
+      if (missing.length > 0) {
+        toast({
+          title: "Incomplete card",
+          description: `Missing ${missing.join(', ')} - add them before publishing again.`,
+        });
+      }
+
+      onCardLoad(files, { username: owner, repo, folder: folder.name });
+      setOpen(false);
+      toast({ title: "Card loaded", description: `Editing ${repo}/og/${folder.name}` });
+    } catch (error) {
+      console.error('Error loading card assets:', error);
+      toast({
+        title: "Could not load card",
+        description: error instanceof Error ? error.message : "Failed to download the card images",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingFolder(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <GalleryHorizontalEnd className="h-4 w-4" />
+          Open Published Card
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Published Cards</DialogTitle>
+          <DialogDescription>
+            Pick a card from the og/ folder of your asset repository to edit and re-publish it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <GitHubLogin onAuthChange={setIsAuthenticated} />
+
+          {isAuthenticated && (
+            <>
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="gallery-owner">Owner</Label>
+                  <Select value={selectedOwner} onValueChange={handleOwnerChange}>
+                    <SelectTrigger id="gallery-owner" className="w-full">
+                      <SelectValue placeholder="Select owner" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {owners.map(owner => (
+                        <SelectItem key={owner.login} value={owner.login}>
+                          {owner.login}
+                          {owner.type === 'Organization' && <span className="ml-2 text-xs text-muted-foreground">(organization)</span>}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="ghost" size="icon" onClick={loadFolders} disabled={loadingFolders || !selectedRepo}>
+                  <RefreshCw className={cn("h-4 w-4", loadingFolders && "animate-spin")} />
+                </Button>
+              </div>
+
+              {selectedOwner && (
+                <div className="space-y-2">
+                  <Label>Repository</Label>
+                  <RepositoryPicker
+                    owner={selectedOwner}
+                    value={selectedRepo}
+                    onChange={(repo) => setSelectedRepo(repo.name)}
+                  />
+                </div>
+              )}
+
+              {!selectedRepo ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Select a repository to see its cards
+                </p>
+              ) : loadingFolders ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                  <span className="text-sm">Loading cards...</span>
+                </div>
+              ) : folders.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No cards found in the og/ folder of this repository
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-96 overflow-auto">
+                  {folders.map(folder => (
+                    <button
+                      key={folder.path}
+                      type="button"
+                      className="text-left border rounded-md overflow-hidden hover:border-primary transition-colors disabled:opacity-50"
+                      onClick={() => handlePick(folder)}
+                      disabled={loadingFolder !== null}
+                    >
+                      <div className="h-24 bg-black/20 flex items-center justify-center relative">
+                        {brokenThumbnails[folder.path] ? (
+                          <ImageOff className="h-6 w-6 text-muted-foreground" />
+                        ) : (
+                          <img
+                            src={folder.thumbnailUrl}
+                            alt={`${folder.name} thumbnail`}
+                            className="h-full w-full object-cover"
+                            loading="lazy"
+                            onError={() => setBrokenThumbnails(prev => ({ ...prev, [folder.path]: true }))}
+                          />
+                        )}
+                        {loadingFolder === folder.path && (
+                          <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                            <Loader2 className="h-5 w-5 animate-spin text-white" />
+                          </div>
+                        )}
+                      </div>
+                      <div className="p-2 text-xs font-mono truncate">{folder.name}</div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CardGallery;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Clock, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { CdnPropagationService, FilePropagationStatus } from '@/lib/cdnPropagationService';
+
+interface CdnPropagationStatusProps {
+  owner: string;
+  repo: string;
+  files: { path: string; sha: string }[];
+  service?: CdnPropagationService;
+  onComplete?: (allLive: boolean) => void;
+}
+
+const CdnPropagationStatus: React.FC<CdnPropagationStatusProps> = ({ owner, repo, files, service, onComplete }) => {
+  const propagationService = useMemo(() => service || new CdnPropagationService(), [service]);
+  const [statuses, setStatuses] = useState<FilePropagationStatus[]>([]);
+  const [running, setRunning] = useState(false);
+  const [runId, setRunId] = useState(0);
+  // Kept in a ref so a new callback from the parent doesn't restart polling
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Purge and poll every uploaded file; restarts when the user retries
+  useEffect(() => {
+    if (files.length === 0) return;
+
+    const controller = new AbortController();
+    setRunning(true);
+    propagationService.purgeAndVerify(owner, repo, files, {
+      signal: controller.signal,
+      onStatus: setStatuses,
+    })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        onCompleteRef.current?.(result.every(status => status.state === 'live'));
+      })
+      .catch(error => console.error('Error checking CDN propagation:', error))
+      .finally(() => {
+        if (!controller.signal.aborted) setRunning(false);
+      });
+
+    return () => controller.abort();
+  }, [owner, repo, files, propagationService, runId]);
+
+  const handleRetry = useCallback(() => setRunId(id => id + 1), []);
+
+  const renderIcon = (status: FilePropagationStatus) => {
+    switch (status.state) {
+      case 'live':
+        return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-destructive" />;
+      case 'pending':
+        return <Clock className="h-4 w-4 text-muted-foreground" />;
+      default:
+        return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+    }
+  };
+
+  const describe = (status: FilePropagationStatus) => {
+    switch (status.state) {
+      case 'purging':
+        return 'Purging CDN cache...';
+      case 'waiting':
+        return status.error ? `${status.error} (check ${status.attempts})` : 'Waiting for CDN...';
+      case 'live':
+        return 'Live on CDN';
+      case 'failed':
+        return status.error || 'Not yet live on CDN';
+      default:
+        return 'Pending';
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 border rounded-md">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">CDN Propagation</h4>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleRetry} disabled={running}>
+          <RefreshCw className={`h-3 w-3 mr-1 ${running ? 'animate-spin' : ''}`} />
+          Check Again
+        </Button>
+      </div>
+      {statuses.map(status => (
+        <div key={status.path} className="flex items-center justify-between text-xs">
+          <div className="flex items-center gap-2">
+            {renderIcon(status)}
+            <span className="font-mono">{status.path.split('/').pop()}</span>
+          </div>
+          <span className="text-muted-foreground">{describe(status)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CdnPropagationStatus;
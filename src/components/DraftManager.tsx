@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { FolderOpen, Loader2, Plus, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { DraftStorageService, WizardDraft } from '@/lib/draftStorageService';
+
+interface DraftManagerProps {
+  currentDraftId: string;
+  currentDraftName: string;
+  onRename: (name: string) => void;
+  onSelect: (draft: WizardDraft) => void;
+  onNew: () => void;
+}
+
+const DraftManager: React.FC<DraftManagerProps> = ({
+  currentDraftId,
+  currentDraftName,
+  onRename,
+  onSelect,
+  onNew,
+}) => {
+  const { toast } = useToast();
+  const draftService = DraftStorageService.getInstance();
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<WizardDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadDrafts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDrafts(await draftService.listDrafts());
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      toast({
+        title: "Could not load drafts",
+        description: error instanceof Error ? error.message : "Failed to read saved drafts",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [draftService, toast]);
+
+  // Refresh the list every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      loadDrafts();
+    }
+  }, [open, loadDrafts]);
+
+  const handleDelete = async (draft: WizardDraft) => {
+    try {
+      await draftService.deleteDraft(draft.id);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      toast({ title: "Draft deleted", description: `"${draft.name}" was removed.` });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast({
+        title: "Delete failed",
+        description: "Could not delete the draft. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const countImages = (draft: WizardDraft) => draft.images.filter(image => image.blob).length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FolderOpen className="h-4 w-4" />
+          Drafts
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Saved Drafts</DialogTitle>
+          <DialogDescription>
+            Your cards are saved in this browser as you work. Switch between drafts or start a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="draft-name">Current draft name</Label>
+            <Input
+              id="draft-name"
+              value={currentDraftName}
+              onChange={(e) => onRename(e.target.value)}
+              placeholder="Untitled card"
+            />
+          </div>
+
+          <div className="space-y-2 max-h-72 overflow-auto">
+            {loading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                <span className="text-sm">Loading drafts...</span>
+              </div>
+            ) : drafts.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No saved drafts yet</p>
+            ) : (
+              drafts.map(draft => (
+                <div
+                  key={draft.id}
+                  className={cn(
+                    "flex items-center justify-between p-2 border rounded-md",
+                    draft.id === currentDraftId && "border-primary"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{draft.name || 'Untitled card'}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {countImages(draft)}/3 images · {draft.folderPath?.repo ? `${draft.folderPath.repo}/og/${draft.folderPath.folder}` : 'No repository'} · {formatDistanceToNow(draft.updatedAt, { addSuffix: true })}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 text-xs"
+                      disabled={draft.id === currentDraftId}
+                      onClick={() => {
+                        onSelect(draft);
+                        setOpen(false);
+                      }}
+                    >
+                      {draft.id === currentDraftId ? 'Current' : 'Open'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(draft)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <Button
+            variant="secondary"
+            className="w-full gap-2"
+            onClick={() => {
+              onNew();
+              setOpen(false);
+            }}
+          >
+            <Plus className="h-4 w-4" />
+            New Draft
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DraftManager;
@@ -1,23 +1,53 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Copy, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { Copy, CheckCircle, AlertCircle, ExternalLink, Fuel, Loader2, Send } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { ENSService, TextRecordBatch } from '@/lib/ensService';
+import { config } from '@/lib/rainbowkit';
+import { CostEstimate, CostEstimator, formatCost } from '@/lib/costEstimate';
+import { getEnsNetwork } from '@/lib/ensNetworks';
 
 interface EnsFeaturesProps {
   ensName: string;
+  chainId: number; // Chain the name's records live on
 }
 
-const EnsFeatures: React.FC<EnsFeaturesProps> = ({ ensName }) => {
+const generateRedirectRecord = (redirectUrl: string) => {
+  if (!redirectUrl) return '';
+  return JSON.stringify({
+    redirect: redirectUrl
+  });
+};
+
+const generateWebhookRecord = (webhookType: string, webhookUrl: string) => {
+  if (!webhookType || !webhookUrl) return '';
+  return JSON.stringify({
+    webhooks: {
+      [webhookType]: webhookUrl
+    }
+  });
+};
+
+const EnsFeatures: React.FC<EnsFeaturesProps> = ({ ensName, chainId }) => {
   const { toast } = useToast();
   const [redirectUrl, setRedirectUrl] = useState('');
   const [webhookType, setWebhookType] = useState<'whatsapp' | 'x' | ''>('');
   const [webhookUrl, setWebhookUrl] = useState('');
   const [hasCopied, setHasCopied] = useState(false);
+  const { isConnected } = useAccount();
+  const ensService = useMemo(() => new ENSService(), []);
+  const costEstimator = useMemo(() => new CostEstimator(ensService), [ensService]);
+  const [batch, setBatch] = useState<TextRecordBatch | null>(null);
+  const [gasEstimate, setGasEstimate] = useState<CostEstimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [writing, setWriting] = useState(false);
 
   const handleCopyRecord = (key: string, value: string) => {
     navigator.clipboard.writeText(value);
@@ -29,20 +59,72 @@ const EnsFeatures: React.FC<EnsFeaturesProps> = ({ ensName }) => {
     setTimeout(() => setHasCopied(false), 2000);
   };
 
-  const generateRedirectRecord = () => {
-    if (!redirectUrl) return '';
-    return JSON.stringify({
-      redirect: redirectUrl
-    });
-  };
 
-  const generateWebhookRecord = () => {
-    if (!webhookType || !webhookUrl) return '';
-    return JSON.stringify({
-      webhooks: {
-        [webhookType]: webhookUrl
+  // Every record the user has filled in, keyed by text record name
+  const pendingRecords = useMemo(() => {
+    const records: Record<string, string> = {};
+    const redirect = generateRedirectRecord(redirectUrl);
+    const webhooks = generateWebhookRecord(webhookType, webhookUrl);
+    if (redirect) records.redirect = redirect;
+    if (webhooks) records.webhooks = webhooks;
+    return records;
+  }, [redirectUrl, webhookType, webhookUrl]);
+
+  // Re-estimate gas for the whole batch shortly after the records change
+  useEffect(() => {
+    setBatch(null);
+    setGasEstimate(null);
+    setEstimateError(null);
+    if (!isConnected || !ensName || Object.keys(pendingRecords).length === 0) return;
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const prepared = await ensService.prepareTextRecords(ensName, pendingRecords, chainId);
+        const cost = await costEstimator.estimate(prepared);
+        if (cancelled) return;
+        setBatch(prepared);
+        setGasEstimate(cost);
+      } catch (error) {
+        console.error('Error estimating gas for text records:', error);
+        if (!cancelled) {
+          setEstimateError(error instanceof Error ? error.message.split('\n')[0] : 'Could not estimate gas');
+        }
       }
-    });
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isConnected, ensName, pendingRecords, chainId, ensService, costEstimator]);
+
+  const handleWriteRecords = async () => {
+    if (!batch) return;
+
+    setWriting(true);
+    try {
+      const hashes = await ensService.sendTextRecords(batch);
+      const receipts = await Promise.all(
+        hashes.map(hash => waitForTransactionReceipt(config, { hash, chainId: batch.chainId }))
+      );
+      if (receipts.some(receipt => receipt.status !== 'success')) {
+        throw new Error('A transaction reverted');
+      }
+      toast({
+        title: "Records updated",
+        description: `Set ${Object.keys(pendingRecords).join(' and ')} for ${ensName}`,
+      });
+    } catch (error) {
+      console.error('Error writing text records:', error);
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message.split('\n')[0] : "The records could not be written",
+        variant: "destructive"
+      });
+    } finally {
+      setWriting(false);
+    }
   };
 
   return (
@@ -69,12 +151,12 @@ const EnsFeatures: React.FC<EnsFeaturesProps> = ({ ensName }) => {
               <Label>Record to Set</Label>
               <div className="flex items-center gap-2">
                 <code className="flex-1 p-2 bg-muted rounded-md text-sm">
-                  {generateRedirectRecord()}
+                  {generateRedirectRecord(redirectUrl)}
                 </code>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handleCopyRecord('redirect', generateRedirectRecord())}
+                  onClick={() => handleCopyRecord('redirect', generateRedirectRecord(redirectUrl))}
                 >
                   {hasCopied ? (
                     <>
@@ -128,12 +210,12 @@ const EnsFeatures: React.FC<EnsFeaturesProps> = ({ ensName }) => {
               <Label>Record to Set</Label>
               <div className="flex items-center gap-2">
                 <code className="flex-1 p-2 bg-muted rounded-md text-sm">
-                  {generateWebhookRecord()}
+                  {generateWebhookRecord(webhookType, webhookUrl)}
                 </code>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => handleCopyRecord('webhooks', generateWebhookRecord())}
+                  onClick={() => handleCopyRecord('webhooks', generateWebhookRecord(webhookType, webhookUrl))}
                 >
                   {hasCopied ? (
                     <>
@@ -153,6 +235,46 @@ const EnsFeatures: React.FC<EnsFeaturesProps> = ({ ensName }) => {
         </CardContent>
       </Card>
 
+      {Object.keys(pendingRecords).length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Write Records On-Chain</CardTitle>
+            <CardDescription>
+              Set {Object.keys(pendingRecords).join(' and ')} for {ensName} on{' '}
+              {getEnsNetwork(chainId)?.label || `chain ${chainId}`} with your connected wallet
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!isConnected ? (
+              <p className="text-sm text-muted-foreground">Connect your wallet to write the records directly.</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 text-sm">
+                  <Fuel className="h-4 w-4 text-muted-foreground" />
+                  {estimateError ? (
+                    <span className="text-destructive">{estimateError}</span>
+                  ) : batch?.offchain ? (
+                    <span>Stored offchain: sign one update, no gas needed</span>
+                  ) : gasEstimate !== null && batch ? (
+                    <span>
+                      ~{gasEstimate.gas.toLocaleString()} gas in{' '}
+                      {batch.useMulticall ? 'one multicall transaction' : `${batch.calls.length} transaction${batch.calls.length === 1 ? '' : 's'}`},{' '}
+                      {formatCost(gasEstimate)}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">Estimating gas...</span>
+                  )}
+                </div>
+                <Button className="w-full" onClick={handleWriteRecords} disabled={!batch || writing}>
+                  {writing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Write {Object.keys(pendingRecords).length === 1 ? 'Record' : 'Records'}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Alert>
         <AlertCircle className="h-4 w-4" />
         <AlertTitle>How to Use</AlertTitle>
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { AlertCircle, AlertTriangle, ExternalLink, ImageOff, Loader2, Search } from "lucide-react";
+import { ENSService } from '@/lib/ensService';
+import { toHttpBaseUrl } from '@/lib/cdnUrl';
+import { validateYodlRecord, YodlRecordValidation } from '@/lib/yodlRecordSchema';
+import { CARD_LAYERS } from '@/lib/cardCompositor';
+import CardCompositor from './CardCompositor';
+
+interface LookupResult {
+  name: string;
+  address: string | null;
+  raw: string | null;
+  validation: YodlRecordValidation | null;
+  parseError: boolean;
+}
+
+// Inspect the me.yodl record and card of any ENS name, without a wallet
+const EnsLookup: React.FC = () => {
+  const ensService = useMemo(() => new ENSService(), []);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<LookupResult | null>(null);
+  const [brokenAssets, setBrokenAssets] = useState<{ [name: string]: boolean }>({});
+
+  const handleLookup = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!query.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setBrokenAssets({});
+    try {
+      const name = query.trim().toLowerCase();
+      const [address, raw] = await Promise.all([
+        ensService.getAddressForName(name),
+        ensService.getTextRecord(name, 'me.yodl'),
+      ]);
+
+      let validation: YodlRecordValidation | null = null;
+      let parseError = false;
+      if (raw) {
+        try {
+          validation = validateYodlRecord(JSON.parse(raw));
+        } catch (e) {
+          parseError = true;
+        }
+      }
+      setResult({ name, address, raw, validation, parseError });
+    } catch (error) {
+      console.error('Error looking up ENS name:', error);
+      setError(error instanceof Error ? error.message.split('\n')[0] : 'Lookup failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const baseUrl = typeof result?.validation?.record?.og?.baseUrl === 'string'
+    ? toHttpBaseUrl(result.validation.record.og.baseUrl)
+    : null;
+  const assetUrls = useMemo(() => ({
+    inner: baseUrl ? `${baseUrl}/inner.png` : null,
+    outer: baseUrl ? `${baseUrl}/outer.png` : null,
+    overlay: baseUrl ? `${baseUrl}/overlay.png` : null,
+  }), [baseUrl]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Search className="h-4 w-4" />
+          Look Up Name
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Look Up an ENS Name</DialogTitle>
+          <DialogDescription>
+            Inspect the me.yodl record and preview card of any name. No wallet needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form className="flex items-end gap-2" onSubmit={handleLookup}>
+          <div className="flex-1">
+            <Label htmlFor="lookup-name">ENS name</Label>
+            <Input
+              id="lookup-name"
+              placeholder="vitalik.eth"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="secondary" disabled={!query.trim() || loading}>
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Look Up
+          </Button>
+        </form>
+
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="text-sm">
+              <span className="font-medium">{result.name}</span>
+              <span className="text-muted-foreground font-mono text-xs ml-2">
+                {result.address || 'does not resolve to an address'}
+              </span>
+            </div>
+
+            {!result.raw ? (
+              <p className="text-sm text-muted-foreground">This name has no me.yodl record.</p>
+            ) : result.parseError ? (
+              <div className="space-y-2">
+                <p className="text-sm text-destructive">The me.yodl record is not valid JSON:</p>
+                <pre className="bg-muted p-2 rounded-md font-mono text-xs whitespace-pre-wrap break-all">{result.raw}</pre>
+              </div>
+            ) : result.validation && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">me.yodl record</h4>
+                <pre className="bg-muted p-2 rounded-md font-mono text-xs max-h-48 overflow-auto whitespace-pre">
+                  {JSON.stringify(result.validation.record, null, 2)}
+                </pre>
+                {result.validation.errors.map(error => (
+                  <p key={`${error.path}-${error.message}`} className="text-xs text-destructive">
+                    <code>{error.path || 'record'}</code>: {error.message}
+                  </p>
+                ))}
+                {result.validation.unknownKeys.length > 0 && (
+                  <p className="flex items-start gap-1 text-xs text-amber-600">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    Unknown keys: {result.validation.unknownKeys.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {baseUrl && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium">Card assets</h4>
+                  <a
+                    href={baseUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-xs text-primary"
+                  >
+                    <ExternalLink className="h-3 w-3 mr-1" /> {baseUrl}
+                  </a>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {CARD_LAYERS.map(layer => (
+                    <div key={layer.name} className="border rounded-md overflow-hidden">
+                      <div className="h-20 bg-black/20 flex items-center justify-center">
+                        {brokenAssets[layer.name] ? (
+                          <ImageOff className="h-5 w-5 text-muted-foreground" />
+                        ) : (
+                          <img
+                            src={assetUrls[layer.name] || ''}
+                            alt={`${layer.name}.png`}
+                            className="h-full w-full object-contain"
+                            onError={() => setBrokenAssets(prev => ({ ...prev, [layer.name]: true }))}
+                          />
+                        )}
+                      </div>
+                      <div className="p-1 text-xs font-mono text-center">{layer.name}.png</div>
+                    </div>
+                  ))}
+                </div>
+
+                <h4 className="text-sm font-medium">Approximate composed preview</h4>
+                <CardCompositor sources={assetUrls} fileName={`${result.name}-og.png`} />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EnsLookup;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Address } from 'viem';
+import { normalize } from 'viem/ens';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AlertCircle, Loader2, Plus } from 'lucide-react';
+import { createNameIndexer, mergeOwnedNames, OwnedName } from '@/lib/nameIndexer';
+
+interface EnsNamePickerProps {
+  address?: Address;
+  selected: string[];
+  onChange: (names: string[]) => void;
+  multiple?: boolean;
+  disabled?: boolean;
+}
+
+// Lists the names the connected address holds so one or several can be targeted
+const EnsNamePicker: React.FC<EnsNamePickerProps> = ({ address, selected, onChange, multiple, disabled }) => {
+  const { indexer, error: indexerError } = useMemo(() => createNameIndexer(), []);
+  const [names, setNames] = useState<OwnedName[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [customName, setCustomName] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [defaultName, setDefaultName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      setNames([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    indexer.listNames(address)
+      .then(found => {
+        if (cancelled) return;
+        setNames(found);
+        const primary = found.find(entry => entry.roles.includes('primary')) || found[0];
+        setDefaultName(primary?.name || null);
+      })
+      .catch(error => {
+        console.error('Error listing ENS names:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Could not list your names');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address, indexer]);
+
+  // Start with the primary name selected, like the single-name flow did
+  useEffect(() => {
+    if (!defaultName) return;
+    if (selected.length === 0) {
+      onChange([defaultName]);
+    }
+    setDefaultName(null);
+  }, [defaultName, selected.length, onChange]);
+
+  const toggle = (name: string, checked: boolean) => {
+    if (!multiple) {
+      onChange([name]);
+    } else {
+      onChange(checked ? Array.from(new Set([...selected, name])) : selected.filter(item => item !== name));
+    }
+  };
+
+  // Names the indexer doesn't know about, e.g. subnames managed through an offchain resolver
+  const handleAddCustom = () => {
+    try {
+      const name = normalize(customName.trim());
+      setNames(prev => mergeOwnedNames([...prev, { name, roles: [], expiresAt: null }]));
+      toggle(name, true);
+      setCustomName('');
+      setCustomError(null);
+    } catch (e) {
+      setCustomError('Not a valid ENS name');
+    }
+  };
+
+  const renderName = (entry: OwnedName) => (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-sm">{entry.name}</span>
+      {entry.roles.map(role => (
+        <Badge key={role} variant="secondary" className="text-[10px] px-1.5 py-0">{role}</Badge>
+      ))}
+      {entry.expiresAt && (
+        <span className="text-xs text-muted-foreground">
+          expires {new Date(entry.expiresAt * 1000).toLocaleDateString()}
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>{multiple ? 'Names to update' : 'Name to update'}</Label>
+
+      {indexerError && (
+        <p className="flex items-center gap-2 text-xs text-amber-600">
+          <AlertCircle className="h-3 w-3" /> {indexerError}. Only your primary name is listed.
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Finding your names...
+        </div>
+      ) : error ? (
+        <p className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" /> {error}
+        </p>
+      ) : names.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No names found for this address. Add one below.</p>
+      ) : multiple ? (
+        <div className="space-y-2 max-h-48 overflow-auto border rounded-md p-2">
+          {names.map(entry => (
+            <div key={entry.name} className="flex items-center space-x-2">
+              <Checkbox
+                id={`ens-name-${entry.name}`}
+                checked={selected.includes(entry.name)}
+                onCheckedChange={(checked) => toggle(entry.name, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`ens-name-${entry.name}`} className="font-normal">{renderName(entry)}</Label>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <RadioGroup
+          value={selected[0] || ''}
+          onValueChange={(name) => toggle(name, true)}
+          className="max-h-48 overflow-auto border rounded-md p-2"
+          disabled={disabled}
+        >
+          {names.map(entry => (
+            <div key={entry.name} className="flex items-center space-x-2">
+              <RadioGroupItem value={entry.name} id={`ens-name-${entry.name}`} />
+              <Label htmlFor={`ens-name-${entry.name}`} className="font-normal">{renderName(entry)}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="another-name.eth"
+          value={customName}
+          onChange={(e) => setCustomName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && customName.trim() && handleAddCustom()}
+          disabled={disabled}
+        />
+        <Button variant="outline" onClick={handleAddCustom} disabled={disabled || !customName.trim()}>
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+      {customError && <p className="text-xs text-destructive">{customError}</p>}
+    </div>
+  );
+};
+
+export default EnsNamePicker;
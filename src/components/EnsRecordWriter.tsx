@@ -0,0 +1,588 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAccount } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { Address, Hash } from 'viem';
+import { normalize } from 'viem/ens';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, AlertTriangle, CheckCircle, ExternalLink, Fuel, Loader2, Search, Send, XCircle } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { PreviewData } from '@/lib/types';
+import { ENSService } from '@/lib/ensService';
+import { CostEstimate, CostEstimator, formatCost, isMeaningfulSaving } from '@/lib/costEstimate';
+import { config } from '@/lib/rainbowkit';
+import { ENS_NETWORKS, EnsNetwork, EnsNetworkId, getEnsNetwork, getEnsNetworkForName, MAINNET_NETWORK } from '@/lib/ensNetworks';
+import { isOgError, validateYodlRecord, YodlRecordValidation } from '@/lib/yodlRecordSchema';
+import { diffRecords, RecordChange } from '@/lib/recordDiff';
+import { isPlainObject, withOgBaseUrl } from '@/lib/recordMerge';
+import WalletConnect from './WalletConnect';
+import EnsNamePicker from './EnsNamePicker';
+import RecordConflictDialog from './RecordConflictDialog';
+
+const RECORD_KEY = 'me.yodl';
+
+type TxState = 'idle' | 'signing' | 'pending' | 'confirmed' | 'failed';
+
+interface TxStatus {
+  state: TxState;
+  hash?: Hash;
+  error?: string;
+  offchain?: boolean;
+}
+
+interface LoadedRecord {
+  name: string;
+  network: EnsNetwork; // Where the record lives and is written
+  resolver: Address;
+  raw: string;
+  parsed: Record<string, unknown>;
+  parseError: boolean;
+}
+
+// A loaded name with the new og.baseUrl merged into its record
+interface PlannedUpdate {
+  record: LoadedRecord;
+  merged: Record<string, unknown>;
+  payload: string; // Exactly what will be written
+  changes: RecordChange[];
+  validation: YodlRecordValidation;
+}
+
+// Cost of the payload, and of the smaller payloads it could be replaced with
+interface PayloadCost {
+  estimate: CostEstimate;
+  minifiedGas: bigint | null; // Null when the payload is already minified
+  ogOnlyGas: bigint | null; // Null when the record has no other fields
+}
+
+// A record that changed on-chain after loading, waiting for the user to merge it
+interface PendingConflict {
+  name: string;
+  base: Record<string, unknown>;
+  theirs: Record<string, unknown>;
+  mine: Record<string, unknown>;
+  resolve: (record: Record<string, unknown> | null) => void;
+}
+
+interface EnsRecordWriterProps {
+  previewData: PreviewData | null;
+  onEnsNameLoaded?: (name: string, chainId: number) => void;
+}
+
+// Writes the merged me.yodl record on-chain with the connected wallet, for one or several names
+const EnsRecordWriter: React.FC<EnsRecordWriterProps> = ({ previewData, onEnsNameLoaded }) => {
+  const { toast } = useToast();
+  const { address, isConnected, chain } = useAccount();
+  const ensService = useMemo(() => new ENSService(), []);
+  const costEstimator = useMemo(() => new CostEstimator(ensService), [ensService]);
+
+  // Network for names that aren't tied to one, starting with the wallet's own
+  const [networkId, setNetworkId] = useState<EnsNetworkId>(() => getEnsNetwork(chain?.id)?.id || MAINNET_NETWORK.id);
+  const defaultNetwork = ENS_NETWORKS.find(network => network.id === networkId) || MAINNET_NETWORK;
+
+  const [selectedNames, setSelectedNames] = useState<string[]>([]);
+  const [loadedRecords, setLoadedRecords] = useState<LoadedRecord[]>([]);
+  const [loadErrors, setLoadErrors] = useState<{ [name: string]: string }>({});
+  const [loadingRecords, setLoadingRecords] = useState(false);
+  const [writing, setWriting] = useState(false);
+  const [txStatus, setTxStatus] = useState<{ [name: string]: TxStatus }>({});
+  const [minify, setMinify] = useState(false);
+  const [costs, setCosts] = useState<{ [name: string]: PayloadCost | { error: string } }>({});
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  // A different wallet manages different names
+  useEffect(() => {
+    setSelectedNames([]);
+    setLoadedRecords([]);
+    setLoadErrors({});
+    setTxStatus({});
+  }, [address]);
+
+  const updateStatus = (name: string, status: TxStatus) => {
+    setTxStatus(prev => ({ ...prev, [name]: status }));
+  };
+
+  const loadRecord = async (selectedName: string): Promise<LoadedRecord> => {
+    // Normalized here so a name that fails normalization is reported like any other load error
+    const name = normalize(selectedName);
+    const network = getEnsNetworkForName(name, defaultNetwork);
+    const resolver = await ensService.getResolverAddress(name, network.chain.id);
+    if (!resolver) {
+      throw new Error(`${name} has no resolver set on ${network.label}`);
+    }
+
+    const raw = await ensService.getTextRecord(name, RECORD_KEY, network.chain.id) || '';
+
+    let parsed: Record<string, unknown> = {};
+    let parseError = false;
+    if (raw) {
+      try {
+        parsed = JSON.parse(raw);
+      } catch (e) {
+        parseError = true;
+      }
+    }
+    return { name, network, resolver, raw, parsed, parseError };
+  };
+
+  const handleLoadRecords = async () => {
+    if (selectedNames.length === 0) return;
+
+    setLoadingRecords(true);
+    setLoadedRecords([]);
+    setLoadErrors({});
+    setTxStatus({});
+    const results = await Promise.allSettled(selectedNames.map(name => loadRecord(name)));
+
+    const loaded: LoadedRecord[] = [];
+    const errors: { [name: string]: string } = {};
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        loaded.push(result.value);
+      } else {
+        console.error(`Error loading ENS record for ${selectedNames[i]}:`, result.reason);
+        errors[selectedNames[i]] = result.reason instanceof Error ? result.reason.message.split('\n')[0] : 'Failed to read the me.yodl record';
+      }
+    });
+    setLoadedRecords(loaded);
+    setLoadErrors(errors);
+    setLoadingRecords(false);
+
+    if (loaded.length > 0) {
+      onEnsNameLoaded?.(loaded[0].name, loaded[0].network.chain.id);
+    }
+    if (Object.keys(errors).length > 0) {
+      toast({
+        title: "Could not load every record",
+        description: Object.keys(errors).join(', '),
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Each existing record with the same new og.baseUrl merged in
+  const plannedUpdates = useMemo<PlannedUpdate[]>(() => {
+    if (!previewData?.baseUrl) return [];
+    return loadedRecords.map(record => {
+      const merged = withOgBaseUrl(record.parsed, previewData.baseUrl);
+      // Pretty-printed records stay pretty-printed unless minifying is asked for
+      const pretty = !minify && record.raw.includes('\n');
+      return {
+        record,
+        merged,
+        payload: pretty ? JSON.stringify(merged, null, 2) : JSON.stringify(merged),
+        changes: diffRecords(record.parsed, merged),
+        validation: validateYodlRecord(merged),
+      };
+    });
+  }, [loadedRecords, previewData?.baseUrl, minify]);
+
+  // Estimate the exact payload of every changed record, and what minifying or dropping fields would save
+  useEffect(() => {
+    setCosts({});
+    const changed = plannedUpdates.filter(update => update.changes.length > 0);
+    if (!isConnected || changed.length === 0) return;
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      for (const { record, merged, payload } of changed) {
+        try {
+          const batch = await ensService.prepareTextRecords(record.name, { [RECORD_KEY]: payload }, record.network.chain.id);
+          const estimate = await costEstimator.estimate(batch);
+          const compare = async (alternative: string | null) => alternative === null || alternative === payload || batch.offchain
+            ? null
+            : ensService.estimateTextRecordsGas(ensService.withTextRecords(batch, record.name, { [RECORD_KEY]: alternative }));
+
+          const [minifiedGas, ogOnlyGas] = await Promise.all([
+            compare(JSON.stringify(merged)),
+            compare(Object.keys(merged).length > 1 ? JSON.stringify({ og: merged.og }) : null),
+          ]);
+          if (cancelled) return;
+          setCosts(prev => ({ ...prev, [record.name]: { estimate, minifiedGas, ogOnlyGas } }));
+        } catch (error) {
+          console.error(`Error estimating the cost for ${record.name}:`, error);
+          if (cancelled) return;
+          setCosts(prev => ({
+            ...prev,
+            [record.name]: { error: error instanceof Error ? error.message.split('\n')[0] : 'Could not estimate gas' },
+          }));
+        }
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isConnected, plannedUpdates, ensService, costEstimator]);
+
+  // Only og is written, so problems in the record's other fields are warnings rather than blockers
+  const writableUpdates = plannedUpdates.filter(update => update.changes.length > 0 && !update.validation.errors.some(isOgError));
+
+  // Loaded records on another chain than the wallet, which will have to switch before writing them
+  const otherNetworks = Array.from(new Set(
+    plannedUpdates.map(update => update.record.network).filter(network => network.chain.id !== chain?.id)
+  ));
+
+  // The written value becomes the new base, so writing again doesn't look like a conflict
+  const markWritten = (name: string, payload: string) => {
+    setLoadedRecords(prev => prev.map(record =>
+      record.name === name ? { ...record, raw: payload, parsed: JSON.parse(payload), parseError: false } : record
+    ));
+  };
+
+  // Show the three-way view and wait for the merged record, or null when the user cancels
+  const askToResolve = (name: string, base: Record<string, unknown>, theirs: Record<string, unknown>, mine: Record<string, unknown>) =>
+    new Promise<Record<string, unknown> | null>(resolve => {
+      setConflict({ name, base, theirs, mine, resolve });
+    });
+
+  const handleConflictDone = (record: Record<string, unknown> | null) => {
+    conflict?.resolve(record);
+    setConflict(null);
+  };
+
+  // Names are written one after another so the wallet only asks for one signature at a time.
+  // The wallet is switched to each record's chain first, and the write is refused if it stays elsewhere.
+  const handleWrite = async () => {
+    if (writableUpdates.length === 0) return;
+
+    setWriting(true);
+    let confirmed = 0;
+    for (const { record, merged, payload: plannedPayload } of writableUpdates) {
+      const chainId = record.network.chain.id;
+      let payload = plannedPayload;
+      updateStatus(record.name, { state: 'signing' });
+      try {
+        // Re-read right before signing so a change made elsewhere since loading isn't overwritten
+        const latestRaw = await ensService.getTextRecord(record.name, RECORD_KEY, chainId) || '';
+        if (latestRaw !== record.raw) {
+          let theirs: Record<string, unknown> = {};
+          try {
+            const parsed = JSON.parse(latestRaw || '{}');
+            theirs = isPlainObject(parsed) ? parsed : {};
+          } catch (e) {
+            console.warn('Invalid JSON in the latest ENS record:', latestRaw);
+          }
+
+          const resolved = await askToResolve(record.name, record.parsed, theirs, merged);
+          if (!resolved) {
+            updateStatus(record.name, { state: 'failed', error: 'Cancelled: the record changed on-chain since it was loaded.' });
+            continue;
+          }
+          payload = plannedPayload.includes('\n') ? JSON.stringify(resolved, null, 2) : JSON.stringify(resolved);
+        }
+
+        const batch = await ensService.prepareTextRecords(record.name, { [RECORD_KEY]: payload }, chainId);
+        const [hash] = await ensService.sendTextRecords(batch);
+
+        // Offchain resolvers take a signed update instead of a transaction, so there is nothing to wait for
+        if (batch.offchain) {
+          updateStatus(record.name, { state: 'confirmed', offchain: true });
+          markWritten(record.name, payload);
+          confirmed++;
+          continue;
+        }
+
+        updateStatus(record.name, { state: 'pending', hash });
+        const receipt = await waitForTransactionReceipt(config, { hash, chainId });
+        if (receipt.status === 'success') {
+          updateStatus(record.name, { state: 'confirmed', hash });
+          markWritten(record.name, payload);
+          confirmed++;
+        } else {
+          updateStatus(record.name, {
+            state: 'failed',
+            hash,
+            error: 'Transaction reverted. Make sure the connected wallet manages this name.',
+          });
+        }
+      } catch (error) {
+        console.error(`Error writing me.yodl for ${record.name}:`, error);
+        updateStatus(record.name, {
+          state: 'failed',
+          error: error instanceof Error ? error.message.split('\n')[0] : 'The transaction was not sent',
+        });
+      }
+    }
+    setWriting(false);
+
+    if (confirmed > 0) {
+      toast({
+        title: "ENS records updated",
+        description: `me.yodl is updated for ${confirmed} of ${writableUpdates.length} ${writableUpdates.length === 1 ? 'name' : 'names'}`,
+      });
+    }
+  };
+
+  const formatValue = (value: unknown) => JSON.stringify(value);
+
+  const renderCost = (name: string) => {
+    const cost = costs[name];
+    if (!cost) {
+      return (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Fuel className="h-3 w-3" /> Estimating cost...
+        </p>
+      );
+    }
+    if ('error' in cost) {
+      return (
+        <p className="flex items-center gap-2 text-xs text-destructive">
+          <Fuel className="h-3 w-3" /> Could not estimate gas: {cost.error}
+        </p>
+      );
+    }
+
+    const { estimate, minifiedGas, ogOnlyGas } = cost;
+    const saving = (from: bigint, to: bigint) => `~${(from - to).toLocaleString()} gas (${Number((from - to) * BigInt(100) / from)}%)`;
+    // Dropping fields is compared with the minified payload, so the two savings don't overlap
+    const ogOnlyBase = minifiedGas ?? estimate.gas;
+    return (
+      <div className="space-y-1 text-xs">
+        <p className="flex items-center gap-2">
+          <Fuel className="h-3 w-3 text-muted-foreground" />
+          {estimate.gas === BigInt(0)
+            ? 'Signed offchain update, no gas needed'
+            : `~${estimate.gas.toLocaleString()} gas, ${formatCost(estimate)}`}
+        </p>
+        {minifiedGas !== null && isMeaningfulSaving(estimate.gas, minifiedGas) && (
+          <p className="flex items-start gap-1 text-amber-600">
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            Minifying the JSON would save {saving(estimate.gas, minifiedGas)}.
+          </p>
+        )}
+        {ogOnlyGas !== null && isMeaningfulSaving(ogOnlyBase, ogOnlyGas) && (
+          <p className="flex items-start gap-1 text-amber-600">
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            Writing only og.baseUrl and dropping the existing fields would save {saving(ogOnlyBase, ogOnlyGas)}.
+            Text storage is paid per byte, so remove fields Yodl no longer needs.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderStatus = (record: LoadedRecord) => {
+    const status = txStatus[record.name];
+    const explorerUrl = record.network.chain.blockExplorers?.default.url;
+    if (!status || status.state === 'idle') return null;
+
+    return (
+      <div className="p-2 border rounded-md space-y-1 text-sm">
+        <div className="flex items-center gap-2">
+          {(status.state === 'signing' || status.state === 'pending') && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {status.state === 'confirmed' && <CheckCircle className="h-4 w-4 text-green-500" />}
+          {status.state === 'failed' && <XCircle className="h-4 w-4 text-destructive" />}
+          <span className="font-medium">
+            {status.state === 'signing'
+              ? 'Confirm in wallet...'
+              : status.state === 'pending'
+                ? 'Pending'
+                : status.state === 'confirmed'
+                  ? status.offchain ? 'Signed update accepted by the gateway' : 'Confirmed'
+                  : 'Failed'}
+          </span>
+        </div>
+        {status.hash && (
+          <div className="flex items-center gap-2 text-xs font-mono break-all">
+            {status.hash}
+            {explorerUrl && (
+              <a href={`${explorerUrl}/tx/${status.hash}`} target="_blank" rel="noopener noreferrer" className="text-primary">
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+        )}
+        {status.error && <p className="text-xs text-destructive">{status.error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="w-full card-highlight">
+      {conflict && (
+        <RecordConflictDialog
+          open
+          name={conflict.name}
+          base={conflict.base}
+          theirs={conflict.theirs}
+          mine={conflict.mine}
+          onResolve={handleConflictDone}
+          onCancel={() => handleConflictDone(null)}
+        />
+      )}
+      <CardHeader>
+        <CardTitle>Write Record On-Chain</CardTitle>
+        <CardDescription>
+          Send a setText transaction for your names' me.yodl records from the connected wallet,
+          or sign the update when a name's records are stored offchain
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isConnected ? (
+          <div className="flex flex-col items-center gap-3 py-4">
+            <p className="text-sm text-muted-foreground">Connect the wallet that manages your ENS name</p>
+            <WalletConnect />
+          </div>
+        ) : (
+          <>
+            <div>
+              <Label>Records on</Label>
+              <Select
+                value={networkId}
+                onValueChange={(value) => {
+                  setNetworkId(value as EnsNetworkId);
+                  setLoadedRecords([]);
+                  setTxStatus({});
+                }}
+                disabled={writing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENS_NETWORKS.map(network => (
+                    <SelectItem key={network.id} value={network.id}>{network.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Names under an L2 parent, like .base.eth, always use their L2 resolver
+              </p>
+            </div>
+
+            <EnsNamePicker
+              address={address}
+              selected={selectedNames}
+              onChange={setSelectedNames}
+              multiple
+              disabled={writing}
+            />
+
+            <Button
+              variant="secondary"
+              className="w-full"
+              onClick={handleLoadRecords}
+              disabled={selectedNames.length === 0 || loadingRecords || writing}
+            >
+              {loadingRecords ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+              Load {selectedNames.length > 1 ? `${selectedNames.length} Records` : 'Record'}
+            </Button>
+
+            {!previewData?.baseUrl && (
+              <p className="text-sm text-destructive">Generate the preview URL in the previous step first</p>
+            )}
+
+            {Object.entries(loadErrors).map(([name, error]) => (
+              <p key={name} className="flex items-center gap-2 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3" /> {name}: {error}
+              </p>
+            ))}
+
+            {plannedUpdates.length > 0 && (
+              <div className="space-y-4">
+                {plannedUpdates.map(({ record, changes, validation }) => (
+                  <div key={record.name} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h4 className="text-sm font-medium">Changes to me.yodl for {record.name}</h4>
+                      <Badge variant="outline">on {record.network.label}</Badge>
+                    </div>
+
+                    {record.parseError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertTitle>Existing record is not valid JSON</AlertTitle>
+                        <AlertDescription>It will be replaced by a new record containing only og.baseUrl.</AlertDescription>
+                      </Alert>
+                    )}
+
+                    {changes.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">The on-chain record already matches.</p>
+                    ) : (
+                      <div className="font-mono text-xs bg-muted rounded-md p-3 space-y-1 overflow-auto">
+                        {changes.map(change => (
+                          <div key={change.key}>
+                            {change.type !== 'added' && (
+                              <div className="text-red-600 break-all">- {change.key}: {formatValue(change.before)}</div>
+                            )}
+                            {change.type !== 'removed' && (
+                              <div className="text-green-600 break-all">+ {change.key}: {formatValue(change.after)}</div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {validation.errors.filter(isOgError).length > 0 && (
+                      <div className="text-xs text-destructive space-y-1">
+                        {validation.errors.filter(isOgError).map(error => (
+                          <p key={`${error.path}-${error.message}`}><code>{error.path}</code>: {error.message}</p>
+                        ))}
+                      </div>
+                    )}
+                    {validation.errors.some(error => !isOgError(error)) && (
+                      <div className="text-xs text-amber-600 space-y-1">
+                        <p>Existing fields with problems, left unchanged:</p>
+                        {validation.errors.filter(error => !isOgError(error)).map(error => (
+                          <p key={`${error.path}-${error.message}`}><code>{error.path}</code>: {error.message}</p>
+                        ))}
+                      </div>
+                    )}
+
+                    {changes.length > 0 && renderCost(record.name)}
+
+                    {renderStatus(record)}
+                  </div>
+                ))}
+
+                {loadedRecords.some(record => record.raw.includes('\n')) && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="writer-minify"
+                      checked={minify}
+                      onCheckedChange={(checked) => setMinify(checked === true)}
+                      disabled={writing}
+                    />
+                    <Label htmlFor="writer-minify" className="font-normal text-sm">Minify pretty-printed records</Label>
+                  </div>
+                )}
+
+                {otherNetworks.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Wallet is on {chain?.name || 'another network'}</AlertTitle>
+                    <AlertDescription>
+                      You'll be asked to switch to {otherNetworks.map(network => network.label).join(' and ')} before
+                      writing. Records are not written while the wallet is on the wrong network.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Button className="w-full" onClick={handleWrite} disabled={writableUpdates.length === 0 || writing}>
+                  {writing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                  {writing
+                    ? 'Writing...'
+                    : writableUpdates.length > 1 ? `Write ${writableUpdates.length} Records` : 'Write Record'}
+                </Button>
+              </div>
+            )}
+
+            {address && (
+              <p className="text-xs text-muted-foreground">
+                Sending from {address.substring(0, 6)}...{address.substring(address.length - 4)} on {chain?.name || 'an unsupported network'}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnsRecordWriter;
@@ -8,6 +8,9 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2, CheckCircle, AlertCircle, Copy, ExternalLink } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { PreviewData } from '@/lib/types';
+import { validateYodlRecordJson } from '@/lib/yodlRecordSchema';
+import { withOgBaseUrl } from '@/lib/recordMerge';
+import YodlRecordEditor from './YodlRecordEditor';
 
 interface EnsUpdaterProps {
   previewData: PreviewData | null;
@@ -31,14 +34,17 @@ const EnsUpdater: React.FC<EnsUpdaterProps> = ({ previewData }) => {
       return;
     }
 
-    try {
-      const parsed = JSON.parse(existingJson);
-      setParsedJson(parsed);
-      setJsonError(null);
-    } catch (err) {
-      console.warn('Invalid JSON input:', err);
+    const validation = validateYodlRecordJson(existingJson);
+    if (validation.syntaxError) {
+      console.warn('Invalid JSON input:', validation.syntaxError);
       // Don't change parsedJson on error
       setJsonError('Invalid JSON format. Please check your input.');
+    } else if (validation.errors.length > 0) {
+      setParsedJson(validation.record);
+      setJsonError('The record has invalid fields. Please fix them before copying.');
+    } else {
+      setParsedJson(validation.record);
+      setJsonError(null);
     }
   }, [existingJson]);
   
@@ -46,16 +52,7 @@ const EnsUpdater: React.FC<EnsUpdaterProps> = ({ previewData }) => {
   const getUpdatedJson = useCallback(() => {
     if (!previewUrl) return '';
     
-    // Create a new object to avoid mutating the state directly
-    const updatedData = {
-      ...parsedJson,
-      og: {
-        ...(parsedJson.og || {}),
-        baseUrl: previewUrl
-      }
-    };
-    
-    return JSON.stringify(updatedData, null, 2);
+    return JSON.stringify(withOgBaseUrl(parsedJson, previewUrl), null, 2);
   }, [parsedJson, previewUrl]);
   
   // Format JSON for display
@@ -99,9 +96,9 @@ const EnsUpdater: React.FC<EnsUpdaterProps> = ({ previewData }) => {
   }, [getUpdatedJson, toast]);
 
   // Handle text input change safely
-  const handleTextChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+  const handleTextChange = useCallback((json: string) => {
     // Just update the text value, parsing happens in the useEffect
-    setExistingJson(e.target.value);
+    setExistingJson(json);
   }, []);
 
   return (
@@ -128,22 +125,17 @@ const EnsUpdater: React.FC<EnsUpdaterProps> = ({ previewData }) => {
               <div className="flex justify-between items-center">
                 <Label htmlFor="existingJson">Current JSON (Optional)</Label>
               </div>
-              <textarea
-                id="existingJson"
+              <YodlRecordEditor
                 value={existingJson}
                 onChange={handleTextChange}
                 placeholder="Paste your existing me.yodl record here (if any)"
-                className="w-full h-24 p-2 font-mono text-xs border rounded-md"
+                textareaClassName="h-24 p-2 text-xs bg-background border"
               />
-              <div className="text-xs">
-                {jsonError ? (
-                  <p className="text-destructive">{jsonError}</p>
-                ) : (
-                  <p className="text-muted-foreground">
-                    If you already have a me.yodl record, paste it here to preserve your existing data
-                  </p>
-                )}
-              </div>
+              {!existingJson.trim() && (
+                <p className="text-xs text-muted-foreground">
+                  If you already have a me.yodl record, paste it here or use the form to preserve your existing data
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
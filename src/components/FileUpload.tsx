@@ -2,7 +2,7 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ImageFile } from "@/lib/types";
-import { X, CheckCircle, Upload, Loader2, Image as ImageIcon, RefreshCw, Info } from "lucide-react";
+import { X, CheckCircle, Upload, Loader2, Image as ImageIcon, Crop, Info } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -12,9 +12,11 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import ImageCropEditor from "@/components/ImageCropEditor";
 
 interface FileUploadProps {
   onFilesChange: (files: ImageFile[]) => void;
+  initialFiles?: ImageFile[]; // Files restored from a saved draft
 }
 
 // Suggested dimensions for each image type
@@ -24,13 +26,23 @@ const SUGGESTED_DIMENSIONS = {
   overlay: { width: 600, height: 800 }
 };
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
+// Get image dimensions
+const getImageDimensions = (dataUrl: string): Promise<{width: number, height: number}> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.width, height: img.height });
+    };
+    img.onerror = () => reject(new Error('Could not read the image'));
+    img.src = dataUrl;
+  });
+};
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, initialFiles }) => {
   const { toast } = useToast();
-  const [files, setFiles] = useState<ImageFile[]>([
-    { name: 'inner', file: null, preview: null },
-    { name: 'outer', file: null, preview: null },
-    { name: 'overlay', file: null, preview: null },
-  ]);
+  const [files, setFiles] = useState<ImageFile[]>(() => (['inner', 'outer', 'overlay'] as const).map(name => 
+    initialFiles?.find(f => f.name === name) || { name, file: null, preview: null }
+  ));
   const [loading, setLoading] = useState<{ [key: string]: boolean }>({
     inner: false,
     outer: false,
@@ -46,6 +58,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
     outer: false,
     overlay: false,
   });
+  // Original uploads, kept so re-cropping never works from an already cropped image
+  const [originals, setOriginals] = useState<{ [key: string]: string | null }>(() => ({
+    inner: files.find(f => f.name === 'inner')?.preview || null,
+    outer: files.find(f => f.name === 'outer')?.preview || null,
+    overlay: files.find(f => f.name === 'overlay')?.preview || null,
+  }));
+  const [cropTarget, setCropTarget] = useState<'inner' | 'outer' | 'overlay' | null>(null);
+  const measuredPreviews = useRef<{ [key: string]: string }>({});
   
   // File input refs
   const fileInputRefs = {
@@ -134,9 +154,11 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
       });
       
       const dataUrl = await dataUrlPromise;
+      setOriginals(prev => ({ ...prev, [name]: dataUrl }));
       
       // Get image dimensions
       const imgDimensions = await getImageDimensions(dataUrl);
+      measuredPreviews.current[name] = dataUrl;
       setDimensions(prev => ({ 
         ...prev, 
         [name]: { width: imgDimensions.width, height: imgDimensions.height } 
@@ -167,16 +189,18 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
     }
   }, [files, onFilesChange, toast, autoResize, resizeImage]);
 
-  // Get image dimensions
-  const getImageDimensions = (dataUrl: string): Promise<{width: number, height: number}> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        resolve({ width: img.width, height: img.height });
-      };
-      img.src = dataUrl;
+  // Measure restored images; the ref keeps each preview from being measured twice
+  useEffect(() => {
+    files.forEach(({ name, preview }) => {
+      if (!preview || measuredPreviews.current[name] === preview) return;
+      measuredPreviews.current[name] = preview;
+      getImageDimensions(preview)
+        .then(dims => {
+          setDimensions(prev => ({ ...prev, [name]: dims }));
+        })
+        .catch(error => console.error(`Error measuring restored ${name} image:`, error));
     });
-  };
+  }, [files]);
 
   // Handle file input change
   const handleFileChange = useCallback((name: 'inner' | 'outer' | 'overlay', event: React.ChangeEvent<HTMLInputElement>) => {
@@ -207,6 +231,30 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
     setAutoResize(prev => ({ ...prev, [name]: !prev[name] }));
   }, []);
 
+  // Replace a slot's image with the output of the crop editor
+  const handleCropApply = useCallback(async (name: 'inner' | 'outer' | 'overlay', blob: Blob) => {
+    const croppedFile = new File([blob], `${name}.png`, { type: 'image/png' });
+    const dataUrl = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.readAsDataURL(blob);
+    });
+
+    const { width, height } = SUGGESTED_DIMENSIONS[name];
+    setDimensions(prev => ({ ...prev, [name]: { width, height } }));
+
+    const updatedFiles = files.map(item =>
+      item.name === name ? { ...item, file: croppedFile, preview: dataUrl } : item
+    );
+    setFiles(updatedFiles);
+    onFilesChange(updatedFiles);
+
+    toast({
+      title: `${name}.png cropped`,
+      description: `Image cropped to ${width}×${height}px`,
+    });
+  }, [files, onFilesChange, toast]);
+
   // Clear file
   const clearFile = useCallback((name: 'inner' | 'outer' | 'overlay') => {
     const updatedFiles = files.map(item => 
@@ -215,8 +263,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
     setFiles(updatedFiles);
     onFilesChange(updatedFiles);
     
-    // Reset dimensions
+    // Reset dimensions and original
     setDimensions(prev => ({ ...prev, [name]: { width: 0, height: 0 } }));
+    setOriginals(prev => ({ ...prev, [name]: null }));
     
     // Reset file input
     if (fileInputRefs[name].current) {
@@ -345,19 +394,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
                         </Label>
                       </div>
                       
-                      {!isCorrectSize && preview && (
+                      {preview && (
                         <Button
-                          variant="outline"
+                          variant={isCorrectSize ? "ghost" : "outline"}
                           size="sm"
                           className="h-8 text-xs"
-                          onClick={() => {
-                            // Trigger file input with auto-resize enabled
-                            setAutoResize(prev => ({ ...prev, [name]: true }));
-                            fileInputRefs[name].current?.click();
-                          }}
+                          onClick={() => setCropTarget(name)}
                         >
-                          <RefreshCw className="h-3 w-3 mr-1" />
-                          Resize
+                          <Crop className="h-3 w-3 mr-1" />
+                          Crop
                         </Button>
                       )}
                     </div>
@@ -368,6 +413,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange }) => {
           );
         })}
       </div>
+
+      <ImageCropEditor
+        open={cropTarget !== null}
+        onOpenChange={(open) => !open && setCropTarget(null)}
+        title={cropTarget ? `Crop ${cropTarget}.png` : 'Crop image'}
+        source={cropTarget ? originals[cropTarget] || files.find(f => f.name === cropTarget)?.preview || null : null}
+        width={cropTarget ? SUGGESTED_DIMENSIONS[cropTarget].width : 0}
+        height={cropTarget ? SUGGESTED_DIMENSIONS[cropTarget].height : 0}
+        onApply={(blob) => cropTarget ? handleCropApply(cropTarget, blob) : undefined}
+      />
     </div>
   );
 };
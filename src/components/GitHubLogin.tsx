@@ -1,17 +1,40 @@
 import { Button } from '@/components/ui/button';
-import { GitHubAuthService, GitHubUser } from '@/lib/githubAuthService';
-import { Github, Loader2, AlertCircle, LogOut } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { DeviceAuthorization, GitHubAccount, GitHubAuthService, GitHubUser } from '@/lib/githubAuthService';
+import { TOKEN_PERSISTENCE_OPTIONS, TokenPersistence } from '@/lib/tokenStorage';
+import { Github, Loader2, AlertCircle, AlertTriangle, LogOut, Copy, ExternalLink, ChevronDown, UserPlus } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
 import { useToast } from '@/components/ui/use-toast';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 
 interface GitHubLoginProps {
   onAuthChange?: (authenticated: boolean) => void;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_WARNING_DAYS = 7;
+
+// "Expires in 3 days" style label for a token expiry timestamp
+const formatExpiry = (expiresAt: number) => {
+  const days = Math.ceil((expiresAt - Date.now()) / DAY_MS);
+  if (days <= 0) return 'Token expired';
+  if (days === 1) return 'Token expires within a day';
+  return `Token expires in ${days} days`;
+};
+
 export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
   const { toast } = useToast();
   const authService = GitHubAuthService.getInstance();
@@ -21,10 +44,18 @@ export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
   const [tokenInput, setTokenInput] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
   const [isLoading, setIsLoading] = useState(true); // Added loading state
+  const [privateRepo, setPrivateRepo] = useState(false);
+  const [deviceAuth, setDeviceAuth] = useState<DeviceAuthorization | null>(null);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const deviceAbort = useRef<AbortController | null>(null);
+  const [persistence, setPersistence] = useState<TokenPersistence>(authService.getPersistence());
+  const [tokenExpiry, setTokenExpiry] = useState<number | null>(authService.getTokenExpiry());
+  const [accounts, setAccounts] = useState<GitHubAccount[]>(authService.getAccounts());
 
   useEffect(() => {
     const initializeAuth = async () => {
       setIsLoading(true);
+      await authService.whenReady();
       const isAuth = authService.isAuthenticated();
       let currentUser = authService.getUser();
       
@@ -41,6 +72,8 @@ export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
       
       setIsAuthenticated(!!currentUser); // Update based on whether user fetch succeeded
       setUser(currentUser);
+      setTokenExpiry(currentUser ? authService.getTokenExpiry() : null);
+      setAccounts(authService.getAccounts());
       if (onAuthChange) {
         onAuthChange(!!currentUser);
       }
@@ -51,9 +84,105 @@ export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
 
   const handleOpenTokenDialog = () => {
     setTokenInput(''); // Clear previous input
+    setDeviceAuth(null);
+    setDeviceError(null);
     setShowTokenDialog(true);
   };
 
+  // Closing the dialog stops polling for a pending device code
+  const handleDialogOpenChange = (open: boolean) => {
+    if (!open) {
+      deviceAbort.current?.abort();
+      deviceAbort.current = null;
+      setDeviceAuth(null);
+    }
+    setShowTokenDialog(open);
+  };
+
+  useEffect(() => () => deviceAbort.current?.abort(), []);
+
+  // Warn once per page load when the token is about to lapse
+  useEffect(() => {
+    if (tokenExpiry && tokenExpiry - Date.now() < EXPIRY_WARNING_DAYS * DAY_MS) {
+      toast({
+        title: "GitHub token expiring",
+        description: `${formatExpiry(tokenExpiry)}. Reconnect GitHub with a new token to keep publishing.`,
+        variant: "destructive"
+      });
+    }
+  }, [tokenExpiry, toast]);
+
+  const handlePersistenceChange = async (value: string) => {
+    const next = value as TokenPersistence;
+    try {
+      await authService.setPersistence(next);
+      setPersistence(next);
+    } catch (error) {
+      console.error('Error changing token storage:', error);
+      toast({ title: "Could not change token storage", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const handleSignedIn = (loggedInUser: GitHubUser) => {
+    setUser(loggedInUser);
+    setIsAuthenticated(true);
+    setTokenExpiry(authService.getTokenExpiry());
+    setAccounts(authService.getAccounts());
+    setShowTokenDialog(false);
+    if (onAuthChange) {
+      onAuthChange(true);
+    }
+    toast({ title: "Successfully Connected", description: `Signed in as ${loggedInUser.login}.` });
+  };
+
+  const handleSwitchAccount = async (login: string) => {
+    setIsConnecting(true);
+    try {
+      handleSignedIn(await authService.switchAccount(login));
+    } catch (error) {
+      toast({
+        title: "Could not switch account",
+        description: error instanceof Error ? error.message : `Could not sign in as ${login}.`,
+        variant: "destructive"
+      });
+      // A failed switch leaves no account signed in
+      setUser(null);
+      setIsAuthenticated(false);
+      setTokenExpiry(null);
+      setAccounts(authService.getAccounts());
+      if (onAuthChange) {
+        onAuthChange(false);
+      }
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleStartDeviceFlow = async () => {
+    deviceAbort.current?.abort();
+    const controller = new AbortController();
+    deviceAbort.current = controller;
+    setDeviceError(null);
+    setDeviceAuth(null);
+    setIsConnecting(true);
+    try {
+      const authorization = await authService.startDeviceFlow(privateRepo ? 'repo' : 'public_repo');
+      setDeviceAuth(authorization);
+      const loggedInUser = await authService.completeDeviceFlow(authorization, controller.signal);
+      handleSignedIn(loggedInUser);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error during GitHub device sign-in:', error);
+      setDeviceError(error instanceof Error ? error.message : 'GitHub sign-in failed.');
+    } finally {
+      if (deviceAbort.current === controller) {
+        deviceAbort.current = null;
+        setDeviceAuth(null);
+        setIsConnecting(false);
+      }
+    }
+  };
+
   const handleTokenSubmit = async () => {
     if (!tokenInput.trim()) {
       toast({ title: "Token Required", description: "Please enter a GitHub Personal Access Token.", variant: "destructive" });
@@ -62,21 +191,17 @@ export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
     setIsConnecting(true);
     try {
       const loggedInUser = await authService.setToken(tokenInput);
-      setUser(loggedInUser);
-      setIsAuthenticated(true);
-      setShowTokenDialog(false);
-      if (onAuthChange) {
-        onAuthChange(true);
-      }
-      toast({ title: "Successfully Connected", description: `Signed in as ${loggedInUser.login}.` });
+      handleSignedIn(loggedInUser);
     } catch (error: any) {
       console.error('Error setting token:', error);
       toast({ title: "Connection Failed", description: error.message || "Could not connect with the provided token.", variant: "destructive" });
-      // Ensure state reflects failed auth
-      setUser(null);
-      setIsAuthenticated(false);
-      if (onAuthChange) {
-        onAuthChange(false);
+      // Ensure state reflects failed auth; a previously signed-in account stays active
+      if (!authService.isAuthenticated()) {
+        setUser(null);
+        setIsAuthenticated(false);
+        if (onAuthChange) {
+          onAuthChange(false);
+        }
       }
     } finally {
       setIsConnecting(false);
@@ -87,6 +212,8 @@ export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
     authService.signOut();
     setIsAuthenticated(false);
     setUser(null);
+    setTokenExpiry(null);
+    setAccounts(authService.getAccounts());
     if (onAuthChange) {
       onAuthChange(false);
     }
@@ -102,85 +229,226 @@ export default function GitHubLogin({ onAuthChange }: GitHubLoginProps) {
     );
   }
 
-  if (isAuthenticated && user) {
-    return (
-      <div className="flex items-center justify-between w-full p-2 border rounded-md">
-        <div className="flex items-center gap-2">
-          <img
-            src={user.avatar_url}
-            alt={user.login}
-            className="w-8 h-8 rounded-full"
-          />
-          <span className="text-sm font-medium">{user.login}</span>
-        </div>
-        <Button variant="ghost" size="sm" onClick={handleSignOut} className="text-muted-foreground hover:text-destructive">
-          <LogOut className="mr-1 h-4 w-4" />
-          Sign Out
-        </Button>
-      </div>
-    );
-  }
+  const otherAccounts = accounts.filter(account => account.login !== user?.login);
 
   return (
     <>
-      <Button onClick={handleOpenTokenDialog} variant="outline" className="w-full justify-start">
-        <Github className="mr-2 h-4 w-4" />
-        Connect GitHub (Token)
-      </Button>
+      {isAuthenticated && user ? (
+        <div className="flex items-center justify-between w-full p-2 border rounded-md">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" className="flex items-center gap-2 text-left" disabled={isConnecting}>
+                <img
+                  src={user.avatar_url}
+                  alt={user.login}
+                  className="w-8 h-8 rounded-full"
+                />
+                <div className="flex flex-col">
+                  <span className="flex items-center text-sm font-medium">
+                    {user.login}
+                    {isConnecting ? <Loader2 className="ml-1 h-3 w-3 animate-spin" /> : <ChevronDown className="ml-1 h-3 w-3" />}
+                  </span>
+                  {tokenExpiry && (
+                    <span
+                      className={`flex items-center text-xs ${tokenExpiry - Date.now() < EXPIRY_WARNING_DAYS * DAY_MS ? 'text-destructive' : 'text-muted-foreground'}`}
+                    >
+                      {tokenExpiry - Date.now() < EXPIRY_WARNING_DAYS * DAY_MS && <AlertTriangle className="mr-1 h-3 w-3" />}
+                      {formatExpiry(tokenExpiry)}
+                    </span>
+                  )}
+                </div>
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {otherAccounts.length > 0 && (
+                <>
+                  <DropdownMenuLabel>Switch account</DropdownMenuLabel>
+                  {otherAccounts.map(account => (
+                    <DropdownMenuItem key={account.login} onClick={() => handleSwitchAccount(account.login)}>
+                      {account.avatarUrl && <img src={account.avatarUrl} alt="" className="mr-2 h-4 w-4 rounded-full" />}
+                      {account.login}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                </>
+              )}
+              <DropdownMenuItem onClick={handleOpenTokenDialog}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Add another account
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="sm" onClick={handleSignOut} className="text-muted-foreground hover:text-destructive">
+            <LogOut className="mr-1 h-4 w-4" />
+            Sign Out
+          </Button>
+        </div>
+      ) : (
+        <Button onClick={handleOpenTokenDialog} variant="outline" className="w-full justify-start">
+          <Github className="mr-2 h-4 w-4" />
+          Connect GitHub
+        </Button>
+      )}
 
-      <Dialog open={showTokenDialog} onOpenChange={setShowTokenDialog}>
+      <Dialog open={showTokenDialog} onOpenChange={handleDialogOpenChange}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Connect with GitHub Personal Access Token</DialogTitle>
+            <DialogTitle>{isAuthenticated ? 'Add GitHub Account' : 'Connect GitHub'}</DialogTitle>
             <DialogDescription>
-              Enter a Personal Access Token (PAT) with <code className="font-mono bg-muted px-1 py-0.5 rounded">repo</code> scope to connect your account.
+              Sign in with GitHub, or paste a Personal Access Token with <code className="font-mono bg-muted px-1 py-0.5 rounded">repo</code> scope.
             </DialogDescription>
           </DialogHeader>
-          
-          <div className="space-y-4 py-4">
+
+          {!isAuthenticated && otherAccounts.length > 0 && (
             <div className="space-y-2">
-              <Label htmlFor="token">Personal Access Token</Label>
-              <Input
-                id="token"
-                type="password"
-                placeholder="ghp_..."
-                value={tokenInput}
-                onChange={(e) => setTokenInput(e.target.value)}
-              />
+              <Label>Saved accounts</Label>
+              <div className="flex flex-wrap gap-2">
+                {otherAccounts.map(account => (
+                  <Button
+                    key={account.login}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSwitchAccount(account.login)}
+                    disabled={isConnecting}
+                  >
+                    {account.avatarUrl && <img src={account.avatarUrl} alt="" className="mr-2 h-4 w-4 rounded-full" />}
+                    {account.login}
+                  </Button>
+                ))}
+              </div>
             </div>
-            
-            <Alert variant="default" className="bg-blue-50 border-blue-200 text-blue-800">
-               <AlertCircle className="h-4 w-4 !text-blue-500" />
-              <AlertTitle className="text-sm">How to create a token:</AlertTitle>
-              <AlertDescription className="text-xs space-y-1">
-                <li>Go to <a href="https://github.com/settings/tokens?type=beta" target="_blank" rel="noopener noreferrer" className="underline hover:text-blue-600">GitHub token settings (Fine-grained)</a>.</li>
-                <li>Click "Generate new token".</li>
-                <li>Give it a name (e.g., "Preview Card App").</li>
-                <li>Set expiration (e.g., 90 days).</li>
-                <li>Under "Repository access", select "All repositories" or specific ones.</li>
-                <li>Under "Permissions" &gt; "Repository permissions", find <strong>"Contents"</strong> and set access to <strong>"Read and write"</strong>. (This grants the `repo` scope needed).</li>
-                <li>Click "Generate token" and copy it.</li>
-              </AlertDescription>
-            </Alert>
-             <Alert className="bg-amber-50 border-amber-200 text-amber-800">
-               <AlertCircle className="h-4 w-4 !text-amber-500" />
-              <AlertTitle className="text-sm">Security Note</AlertTitle>
-              <AlertDescription className="text-xs">
-                This token is stored only in your browser's local storage and is never sent to our servers. Treat it like a password.
-              </AlertDescription>
-            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Keep me signed in</Label>
+            <RadioGroup value={persistence} onValueChange={handlePersistenceChange} className="grid grid-cols-3 gap-2">
+              {TOKEN_PERSISTENCE_OPTIONS.map(option => (
+                <Label
+                  key={option.id}
+                  htmlFor={`token-persistence-${option.id}`}
+                  className="flex items-start space-x-2 rounded-md border p-2 font-normal cursor-pointer"
+                >
+                  <RadioGroupItem value={option.id} id={`token-persistence-${option.id}`} className="mt-0.5" />
+                  <span className="space-y-1">
+                    <span className="block text-sm">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
           </div>
-          
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowTokenDialog(false)}>Cancel</Button>
-            <Button 
-              onClick={handleTokenSubmit} 
-              disabled={!tokenInput || isConnecting}
-            >
-              {isConnecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-              Connect
-            </Button>
-          </DialogFooter>
+
+          {/* Without a configured client id and OAuth relay only the token tab can work */}
+          <Tabs defaultValue={authService.isDeviceFlowAvailable() ? 'device' : 'token'}>
+            {authService.isDeviceFlowAvailable() && (
+              <TabsList className="grid grid-cols-2">
+                <TabsTrigger value="device">Sign in with GitHub</TabsTrigger>
+                <TabsTrigger value="token">Access Token</TabsTrigger>
+              </TabsList>
+            )}
+
+            <TabsContent value="device" className="space-y-4 py-4">
+              {deviceAuth ? (
+                <div className="space-y-3 text-center">
+                  <p className="text-sm text-muted-foreground">Enter this code on GitHub to authorize the app:</p>
+                  <div className="flex items-center justify-center gap-2">
+                    <code className="text-2xl font-mono font-bold tracking-widest">{deviceAuth.userCode}</code>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        navigator.clipboard.writeText(deviceAuth.userCode);
+                        toast({ title: "Code copied" });
+                      }}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <a
+                    href={deviceAuth.verificationUri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-sm text-primary"
+                  >
+                    <ExternalLink className="h-3 w-3 mr-1" /> {deviceAuth.verificationUri}
+                  </a>
+                  <p className="flex items-center justify-center text-xs text-muted-foreground">
+                    <Loader2 className="mr-2 h-3 w-3 animate-spin" /> Waiting for authorization...
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="github-private-repo"
+                      checked={privateRepo}
+                      onCheckedChange={(checked) => setPrivateRepo(checked === true)}
+                    />
+                    <Label htmlFor="github-private-repo" className="font-normal text-sm">
+                      My card repository is private
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Only access to public repositories is requested unless your card repository is private.
+                  </p>
+                  {deviceError && (
+                    <p className="flex items-center gap-2 text-sm text-destructive">
+                      <AlertCircle className="h-4 w-4" /> {deviceError}
+                    </p>
+                  )}
+                  <Button className="w-full" onClick={handleStartDeviceFlow} disabled={isConnecting}>
+                    {isConnecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Github className="mr-2 h-4 w-4" />}
+                    Get Sign-in Code
+                  </Button>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="token" className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="token">Personal Access Token</Label>
+                <Input
+                  id="token"
+                  type="password"
+                  placeholder="ghp_..."
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                />
+              </div>
+
+              <Alert variant="default" className="bg-blue-50 border-blue-200 text-blue-800">
+                 <AlertCircle className="h-4 w-4 !text-blue-500" />
+                <AlertTitle className="text-sm">How to create a token:</AlertTitle>
+                <AlertDescription className="text-xs space-y-1">
+                  <li>Go to <a href="https://github.com/settings/tokens?type=beta" target="_blank" rel="noopener noreferrer" className="underline hover:text-blue-600">GitHub token settings (Fine-grained)</a>.</li>
+                  <li>Click "Generate new token".</li>
+                  <li>Give it a name (e.g., "Preview Card App").</li>
+                  <li>Set expiration (e.g., 90 days).</li>
+                  <li>Under "Repository access", select "All repositories" or specific ones.</li>
+                  <li>Under "Permissions" &gt; "Repository permissions", find <strong>"Contents"</strong> and set access to <strong>"Read and write"</strong>. (This grants the `repo` scope needed).</li>
+                  <li>Click "Generate token" and copy it.</li>
+                </AlertDescription>
+              </Alert>
+               <Alert className="bg-amber-50 border-amber-200 text-amber-800">
+                 <AlertCircle className="h-4 w-4 !text-amber-500" />
+                <AlertTitle className="text-sm">Security Note</AlertTitle>
+                <AlertDescription className="text-xs">
+                  This token is kept only in your browser, as chosen above, and is never sent to our servers. Treat it like a password.
+                </AlertDescription>
+              </Alert>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => handleDialogOpenChange(false)}>Cancel</Button>
+                <Button 
+                  onClick={handleTokenSubmit} 
+                  disabled={!tokenInput || isConnecting}
+                >
+                  {isConnecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Connect
+                </Button>
+              </DialogFooter>
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
     </>
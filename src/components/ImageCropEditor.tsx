@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { AlertCircle, Loader2, RotateCcw, RotateCw } from "lucide-react";
+import { useToast } from '@/components/ui/use-toast';
+import { loadImage } from '@/lib/cardCompositor';
+import { CropTransform, DEFAULT_CROP_TRANSFORM, cropImage, drawCroppedImage } from '@/lib/imageCrop';
+
+interface ImageCropEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  source: string | null; // Data URL of the original image
+  width: number; // Target output width
+  height: number; // Target output height
+  onApply: (blob: Blob) => void | Promise<void>;
+}
+
+const ImageCropEditor: React.FC<ImageCropEditorProps> = ({
+  open,
+  onOpenChange,
+  title,
+  source,
+  width,
+  height,
+  onApply,
+}) => {
+  const { toast } = useToast();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [transform, setTransform] = useState<CropTransform>(DEFAULT_CROP_TRANSFORM);
+  const [applying, setApplying] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0); // Bumped by Retry to load the image again
+
+  // Load the source image and reset the transform whenever the editor opens
+  useEffect(() => {
+    if (!open || !source) return;
+
+    let cancelled = false;
+    setImage(null);
+    setLoadError(null);
+    setTransform(DEFAULT_CROP_TRANSFORM);
+    loadImage(source)
+      .then(img => {
+        if (!cancelled) setImage(img);
+      })
+      .catch(error => {
+        console.error('Error loading image for cropping:', error);
+        if (!cancelled) setLoadError('The image could not be loaded');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, source, loadAttempt]);
+
+  // Redraw the preview on every change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+
+    canvas.width = width;
+    canvas.height = height;
+    drawCroppedImage(ctx, image, width, height, transform);
+  }, [image, width, height, transform]);
+
+  // Convert on-screen pointer movement to output pixels
+  const toCanvasScale = () => {
+    const canvas = canvasRef.current;
+    return canvas && canvas.clientWidth > 0 ? canvas.width / canvas.clientWidth : 1;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+
+    const scale = toCanvasScale();
+    const dx = (event.clientX - dragRef.current.x) * scale;
+    const dy = (event.clientY - dragRef.current.y) * scale;
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    setTransform(prev => ({ ...prev, offsetX: prev.offsetX + dx, offsetY: prev.offsetY + dy }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    const delta = event.deltaY > 0 ? -0.05 : 0.05;
+    setTransform(prev => ({ ...prev, zoom: Math.min(5, Math.max(0.1, prev.zoom + delta)) }));
+  };
+
+  const rotateBy = useCallback((degrees: number) => {
+    setTransform(prev => ({ ...prev, rotation: (prev.rotation + degrees + 360) % 360 }));
+  }, []);
+
+  const handleApply = async () => {
+    if (!source) return;
+
+    setApplying(true);
+    try {
+      const blob = await cropImage(source, width, height, transform);
+      await onApply(blob);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error cropping image:', error);
+      toast({
+        title: "Crop failed",
+        description: error instanceof Error ? error.message : "The cropped image could not be created",
+        variant: "destructive"
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Drag to position, scroll or use the slider to zoom. The result will be exactly {width}×{height}px.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div
+            className="relative w-full rounded-md overflow-hidden border border-border bg-black/20"
+            style={{ aspectRatio: `${width} / ${height}` }}
+          >
+            <canvas
+              ref={canvasRef}
+              className="w-full h-full block cursor-move touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onWheel={handleWheel}
+            />
+            {!image && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                {loadError ? (
+                  <div className="flex flex-col items-center gap-2 p-4 text-center">
+                    <p className="flex items-center gap-2 text-sm text-destructive">
+                      <AlertCircle className="h-4 w-4" /> {loadError}
+                    </p>
+                    <Button variant="outline" size="sm" onClick={() => setLoadAttempt(attempt => attempt + 1)}>
+                      Retry
+                    </Button>
+                  </div>
+                ) : (
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Zoom ({Math.round(transform.zoom * 100)}%)</Label>
+            <Slider
+              min={0.1}
+              max={5}
+              step={0.01}
+              value={[transform.zoom]}
+              onValueChange={([zoom]) => setTransform(prev => ({ ...prev, zoom }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Rotation ({Math.round(transform.rotation)}°)</Label>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => rotateBy(-90)}>
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+                <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => rotateBy(90)}>
+                  <RotateCw className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+            <Slider
+              min={0}
+              max={359}
+              step={1}
+              value={[transform.rotation]}
+              onValueChange={([rotation]) => setTransform(prev => ({ ...prev, rotation }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setTransform(DEFAULT_CROP_TRANSFORM)}>Reset</Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleApply} disabled={!image || applying}>
+            {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply Crop
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageCropEditor;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -9,7 +9,11 @@ import { cn } from '@/lib/utils';
 import { ENSService } from '@/lib/ensService';
 import { useAccount } from 'wagmi';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import useWalletProvider from '@/hooks/useWalletProvider';
+import { validateYodlRecordJson } from '@/lib/yodlRecordSchema';
+import { isPlainObject, withOgBaseUrl } from '@/lib/recordMerge';
+import YodlRecordEditor from './YodlRecordEditor';
+import EnsNamePicker from './EnsNamePicker';
+import RecordConflictDialog from './RecordConflictDialog';
 
 interface JsonEditorProps {
   previewData: PreviewData | null;
@@ -18,7 +22,6 @@ interface JsonEditorProps {
 const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
   const { toast } = useToast();
   const { address, isConnected } = useAccount();
-  const walletProvider = useWalletProvider();
   
   const [ensRecord, setEnsRecord] = useState<ENSRecord>({
     tokenSymbols: ["USDT", "USDC"],
@@ -31,26 +34,19 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
   const [currentRecord, setCurrentRecord] = useState<string | null>(null);
   const [parsedCurrentRecord, setParsedCurrentRecord] = useState<any>(null);
   const [fetchingRecords, setFetchingRecords] = useState(false);
+  const [conflict, setConflict] = useState<{
+    base: Record<string, unknown>;
+    theirs: Record<string, unknown>;
+    mine: Record<string, unknown>;
+  } | null>(null);
   
-  const [ensService] = useState(() => new ENSService(walletProvider));
-  
-  useEffect(() => {
-    if (walletProvider) {
-      ensService.updateProvider(walletProvider);
-    }
-  }, [walletProvider, ensService]);
+  const ensService = useMemo(() => new ENSService(), []);
 
   // Update JSON when previewData changes but preserve existing fields
   useEffect(() => {
     if (previewData?.baseUrl) {
       setEnsRecord(prev => {
-        const updatedRecord = {
-          ...prev,
-          og: {
-            baseUrl: previewData.baseUrl
-          }
-        };
-        return updatedRecord;
+        return withOgBaseUrl(prev, previewData.baseUrl);
       });
       
       // Only update editable JSON if we don't have current record yet
@@ -60,15 +56,13 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
     }
   }, [previewData, currentRecord]);
 
-  // Fetch ENS or JustaName records when wallet is connected
+  // Fetch the records of the picked name when wallet is connected
   useEffect(() => {
     const fetchRecords = async () => {
       if (isConnected && address) {
         setFetchingRecords(true);
         try {
-          // Try to get ENS name first
-          const name = await ensService.getENSNameForAddress(address);
-          setEnsName(name);
+          const name = ensName;
           
           if (name) {
             // If ENS name found, get its records
@@ -81,12 +75,7 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                 setParsedCurrentRecord(parsed);
                 
                 // Preserve all existing fields while updating og.baseUrl
-                const updatedRecord = {
-                  ...parsed,
-                  og: previewData?.baseUrl 
-                    ? { ...parsed.og, baseUrl: previewData.baseUrl } 
-                    : parsed.og
-                };
+                const updatedRecord = previewData?.baseUrl ? withOgBaseUrl(parsed, previewData.baseUrl) : parsed;
                 
                 setEnsRecord(updatedRecord);
                 setEditableJson(JSON.stringify(updatedRecord, null, 2));
@@ -117,8 +106,7 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
               setEditableJson(JSON.stringify(defaultRecord, null, 2));
             }
           } else {
-            // No ENS name, could be a JustaName user or no name at all
-            // For now, just set default record, but could be extended to check JustaName
+            // No name picked, so there is no record to load
             if (previewData?.baseUrl) {
               const defaultRecord = {
                 tokenSymbols: ["USDT", "USDC"],
@@ -140,7 +128,6 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
         }
       } else if (!isConnected) {
         // Reset all state when wallet is disconnected
-        setEnsName(null);
         setCurrentRecord(null);
         setParsedCurrentRecord(null);
         
@@ -157,12 +144,20 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
     };
     
     fetchRecords();
-  }, [address, isConnected, previewData, ensService, toast]);
+  }, [address, isConnected, ensName, previewData, ensService, toast]);
+
+  // The picker starts over for a different wallet
+  useEffect(() => {
+    setEnsName(null);
+  }, [address]);
+
+  const validation = useMemo(() => validateYodlRecordJson(editableJson), [editableJson]);
+  const isRecordValid = !validation.syntaxError && validation.errors.length === 0;
 
-  const handleJsonChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setEditableJson(e.target.value);
+  const handleJsonChange = (json: string) => {
+    setEditableJson(json);
     try {
-      const parsed = JSON.parse(e.target.value);
+      const parsed = JSON.parse(json);
       setEnsRecord(parsed);
     } catch (error) {
       // Invalid JSON, but we still update the text area
@@ -188,8 +183,17 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
     
     if (!ensName) {
       toast({
-        title: "No ENS name found",
-        description: "Your wallet address has no associated ENS name",
+        title: "No ENS name selected",
+        description: "Pick the name whose record you want to update",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!isRecordValid) {
+      toast({
+        title: "Invalid record",
+        description: "Fix the highlighted fields before updating your ENS record",
         variant: "destructive"
       });
       return;
@@ -197,33 +201,68 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
     
     setLoading(true);
     try {
-      await ensService.connectSigner();
-      const success = await ensService.updateOgCardRecord(ensName, ensRecord);
-      
-      if (success) {
-        toast({
-          title: "ENS record updated",
-          description: `Successfully updated me.yodl record for ${ensName}`,
-          variant: "default"
-        });
-        
-        // Refresh the current record after successful update
-        const updatedRecord = await ensService.getTextRecord(ensName, 'me.yodl');
-        setCurrentRecord(updatedRecord);
-        if (updatedRecord) {
-          try {
-            setParsedCurrentRecord(JSON.parse(updatedRecord));
-          } catch (e) {
-            console.warn('Invalid JSON in updated ENS record');
-          }
+      // Re-read right before signing so a change made elsewhere since loading isn't overwritten
+      const latestRecord = await ensService.getTextRecord(ensName, 'me.yodl');
+      if ((latestRecord || null) !== (currentRecord || null)) {
+        let theirs: Record<string, unknown> = {};
+        try {
+          const parsed = JSON.parse(latestRecord || '{}');
+          theirs = isPlainObject(parsed) ? parsed : {};
+        } catch (e) {
+          console.warn('Invalid JSON in the latest ENS record:', latestRecord);
         }
-      } else {
-        toast({
-          title: "Update failed",
-          description: "Failed to update ENS record. Please try again.",
-          variant: "destructive"
-        });
+        setConflict({ base: parsedCurrentRecord || {}, theirs, mine: ensRecord });
+        return;
       }
+
+      await writeRecord(ensRecord);
+    } catch (error) {
+      console.error('Error updating ENS record:', error);
+      toast({
+        title: "Update error",
+        description: "An error occurred while updating the ENS record",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const writeRecord = async (record: Record<string, unknown>) => {
+    const success = await ensService.setTextRecord(ensName, 'me.yodl', JSON.stringify(record));
+
+    if (success) {
+      toast({
+        title: "ENS record updated",
+        description: `Successfully updated me.yodl record for ${ensName}`,
+        variant: "default"
+      });
+
+      // Refresh the current record after successful update
+      const updatedRecord = await ensService.getTextRecord(ensName, 'me.yodl');
+      setCurrentRecord(updatedRecord);
+      if (updatedRecord) {
+        try {
+          setParsedCurrentRecord(JSON.parse(updatedRecord));
+          setEditableJson(JSON.stringify(JSON.parse(updatedRecord), null, 2));
+        } catch (e) {
+          console.warn('Invalid JSON in updated ENS record');
+        }
+      }
+    } else {
+      toast({
+        title: "Update failed",
+        description: "Failed to update ENS record. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConflictResolved = async (record: Record<string, unknown>) => {
+    setConflict(null);
+    setLoading(true);
+    try {
+      await writeRecord(record);
     } catch (error) {
       console.error('Error updating ENS record:', error);
       toast({
@@ -268,6 +307,17 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
 
   return (
     <Card className="w-full card-highlight">
+      {conflict && ensName && (
+        <RecordConflictDialog
+          open
+          name={ensName}
+          base={conflict.base}
+          theirs={conflict.theirs}
+          mine={conflict.mine}
+          onResolve={handleConflictResolved}
+          onCancel={() => setConflict(null)}
+        />
+      )}
       <CardHeader>
         <CardTitle className="flex items-center">
           <Code className="mr-2 h-5 w-5" />
@@ -318,16 +368,11 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                   )}
                   
                   <div className="relative">
-                    <textarea
-                      className="w-full h-64 bg-muted p-4 rounded-md font-mono text-sm resize-none"
-                      value={editableJson}
-                      onChange={handleJsonChange}
-                      spellCheck="false"
-                    />
+                    <YodlRecordEditor value={editableJson} onChange={handleJsonChange} />
                     <Button
                       variant="outline"
                       size="sm"
-                      className="absolute top-2 right-2"
+                      className="absolute top-0 right-0"
                       onClick={handleCopyJson}
                     >
                       {copied ? (
@@ -385,10 +430,21 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                 {isConnected 
                   ? ensName 
                     ? `Update the me.yodl record for ${ensName}`
-                    : "No ENS name found for your wallet"
+                    : "Pick the name to update below"
                   : "Connect your wallet to update your ENS domain"
                 }
               </p>
+
+              {isConnected && (
+                <div className="mb-4">
+                  <EnsNamePicker
+                    address={address}
+                    selected={ensName ? [ensName] : []}
+                    onChange={(names) => setEnsName(names[0] || null)}
+                    disabled={loading}
+                  />
+                </div>
+              )}
               
               {fetchingRecords ? (
                 <div className="flex items-center justify-center py-8">
@@ -405,7 +461,7 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                           <p className="font-medium text-blue-700">Existing record found</p>
                           <p className="text-blue-600">
                             When updating, your existing fields (like tokenSymbols) will be preserved.
-                            Only the og.baseUrl value will be updated.
+                            If the record changes on-chain before you sign, you can merge both versions.
                           </p>
                         </div>
                       </div>
@@ -413,17 +469,15 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                   )}
                   
                   <div className="relative">
-                    <textarea
-                      className="w-full h-64 bg-muted p-4 rounded-md font-mono text-sm resize-none"
+                    <YodlRecordEditor
                       value={editableJson}
                       onChange={handleJsonChange}
-                      spellCheck="false"
                       disabled={!isConnected || !ensName}
                     />
                     <Button
                       variant="outline"
                       size="sm"
-                      className="absolute top-2 right-2"
+                      className="absolute top-0 right-0"
                       onClick={handleCopyJson}
                     >
                       {copied ? (
@@ -454,7 +508,7 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                   <Button
                     className="w-full mt-4"
                     onClick={handleUpdateENS}
-                    disabled={!isConnected || !ensName || loading}
+                    disabled={!isConnected || !ensName || loading || !isRecordValid}
                   >
                     {loading ? (
                       <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Updating...</>
@@ -471,7 +525,7 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
                   
                   {isConnected && !ensName && (
                     <p className="text-sm text-muted-foreground mt-2">
-                      No ENS name was found for your connected wallet address
+                      Pick or add the ENS name whose record you want to update
                     </p>
                   )}
                   
@@ -503,7 +557,7 @@ const JsonEditor: React.FC<JsonEditorProps> = ({ previewData }) => {
           {isConnected 
             ? ensName 
               ? `Connected to: ${ensName}` 
-              : "No ENS name associated with your wallet"
+              : "No ENS name selected"
             : "Connect your wallet to update ENS records directly"
           }
         </p>
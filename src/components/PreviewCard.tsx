@@ -1,40 +1,75 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FolderPath, PreviewData, ImageFile } from '@/lib/types';
+import { CardPullRequest, FolderPath, PreviewData, ImageFile } from '@/lib/types';
 import { Copy, ExternalLink, RefreshCw, Github, Loader2, AlertCircle, Info, CheckCircle } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { cn } from '@/lib/utils';
-import { GitHubService } from '@/lib/githubService';
+import { GitHubOwner, GitHubService, RepositoryPermissions } from '@/lib/githubService';
+import { buildJsDelivrBaseUrl } from '@/lib/cdnUrl';
+import { StorageProviderId, StorageUploadResult } from '@/lib/storageProvider';
+import { GitHubStorageProvider } from '@/lib/githubStorageProvider';
 import GitHubLogin from './GitHubLogin';
 import RateLimitIndicator from './RateLimitIndicator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import EnsFeatures from './EnsFeatures';
+import CardCompositor from './CardCompositor';
+import CardFolderCleanup from './CardFolderCleanup';
+import CdnPropagationStatus from './CdnPropagationStatus';
+import PublishRefSelector from './PublishRefSelector';
+import StorageBackendPanel from './StorageBackendPanel';
+import TokenPermissionChecklist from './TokenPermissionChecklist';
+import RepositoryPicker from './RepositoryPicker';
+import PullRequestStatus from './PullRequestStatus';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 
 interface PreviewCardProps {
   previewData: PreviewData | null;
   onFolderPathChange: (path: FolderPath) => void;
   files: ImageFile[];
   ensName?: string;
+  initialFolderPath?: FolderPath | null; // Folder restored from a saved draft
+  initialPinnedRef?: string | null;
+  onPinnedRefChange?: (ref: string | null) => void;
+  initialStorageProvider?: StorageProviderId;
+  initialStorageBaseUrl?: string | null;
+  // Called with the baseUrl published by a non-GitHub backend, or null when GitHub is used
+  onStorageChange?: (providerId: StorageProviderId, baseUrl: string | null) => void;
+  initialPullRequest?: CardPullRequest | null;
+  onPullRequestChange?: (pullRequest: CardPullRequest | null) => void;
 }
 
-interface Repository {
-  id: number;
-  name: string;
-  full_name: string;
-  html_url: string;
-  description: string | null;
-  default_branch: string;
-  visibility: string;
-}
+// Commit straight to the default branch, or propose the card in a pull request
+type PublishMode = 'commit' | 'pull-request';
+
+const STORAGE_BACKENDS: { id: StorageProviderId; label: string }[] = [
+  { id: 'github', label: 'GitHub + jsDelivr' },
+  { id: 'ipfs', label: 'IPFS (pinning service)' },
+  { id: 's3', label: 'S3-compatible bucket' },
+  // The local backend's middleware only exists in the Vite dev server
+  ...(import.meta.env.DEV ? [{ id: 'local' as const, label: 'Local filesystem (dev server)' }] : []),
+];
 
-const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChange, files, ensName }) => {
+const PreviewCard: React.FC<PreviewCardProps> = ({
+  previewData,
+  onFolderPathChange,
+  files,
+  ensName,
+  initialFolderPath,
+  initialPinnedRef,
+  onPinnedRefChange,
+  initialStorageProvider,
+  initialStorageBaseUrl,
+  onStorageChange,
+  initialPullRequest,
+  onPullRequestChange
+}) => {
   const { toast } = useToast();
-  const [folderPath, setFolderPath] = useState<FolderPath>({
+  const [folderPath, setFolderPath] = useState<FolderPath>(() => initialFolderPath || {
     username: '',
     repo: '',
     folder: `custom-${Math.random().toString(36).substring(2, 8)}`
@@ -42,56 +77,100 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
   const [loading, setLoading] = useState(false);
   const [uploadLoading, setUploadLoading] = useState(false);
   const [uploadSuccess, setUploadSuccess] = useState(false);
+  // Commit SHA or tag the published baseUrl is pinned to, null to follow the default branch
+  const [pinnedRef, setPinnedRef] = useState<string | null>(initialPinnedRef || null);
+  const [uploadedCommit, setUploadedCommit] = useState<{ owner: string; repo: string; commitSha: string; files: { path: string; sha: string }[] } | null>(null);
+  const [storageProviderId, setStorageProviderId] = useState<StorageProviderId>(initialStorageProvider || 'github');
+  // baseUrl published by a non-GitHub backend
+  const [storageBaseUrl, setStorageBaseUrl] = useState<string | null>(initialStorageBaseUrl || null);
+  const [publishMode, setPublishMode] = useState<PublishMode>(initialPullRequest ? 'pull-request' : 'commit');
+  const [pullRequest, setPullRequest] = useState<CardPullRequest | null>(initialPullRequest || null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [repositories, setRepositories] = useState<Repository[]>([]);
-  const [loadingRepos, setLoadingRepos] = useState(false);
+  const [githubLogin, setGithubLogin] = useState<string | null>(null);
+  const [owners, setOwners] = useState<GitHubOwner[]>([]);
+  const [loadingOwners, setLoadingOwners] = useState(false);
+  const [repoListKey, setRepoListKey] = useState(0);
+  const [showCreateRepo, setShowCreateRepo] = useState(false);
   const [confirmUploadDialog, setConfirmUploadDialog] = useState(false);
   const [newRepoName, setNewRepoName] = useState('');
   const [creatingRepo, setCreatingRepo] = useState(false);
   const [showVisibilityWarning, setShowVisibilityWarning] = useState(false);
   const [hasCopied, setHasCopied] = useState(false);
+  const [repoPermissions, setRepoPermissions] = useState<RepositoryPermissions | null>(null);
+  const [checkingPermissions, setCheckingPermissions] = useState(false);
 
   // Create GitHub service instance
-  const githubService = new GitHubService();
+  const githubService = useMemo(() => new GitHubService(), []);
 
-  // Load repositories when authenticated
+  // Latest values for the owner effect below, which should only rerun when the account changes
+  const folderPathRef = useRef(folderPath);
+  folderPathRef.current = folderPath;
+  const onFolderPathChangeRef = useRef(onFolderPathChange);
+  onFolderPathChangeRef.current = onFolderPathChange;
+
+  // Load the accounts that can own the card repository whenever the signed-in account changes
   useEffect(() => {
-    if (isAuthenticated) {
-      loadRepositories();
+    if (!isAuthenticated) {
+      setOwners([]);
+      return;
     }
-  }, [isAuthenticated]);
-  
-  const loadRepositories = async () => {
-    setLoadingRepos(true);
-    try {
-      const repos = await githubService.getUserRepositories();
-      setRepositories(repos);
-      
-      // If we have repos, pre-fill the form with the first one
-      if (repos.length > 0) {
-        const user = githubService.getUser();
-        setFolderPath(prev => ({
-          ...prev,
-          username: user?.login || '',
-          repo: repos[0].name
-        }));
-        onFolderPathChange({
-          ...folderPath,
-          username: user?.login || '',
-          repo: repos[0].name
+
+    let cancelled = false;
+    setLoadingOwners(true);
+    githubService.listOwners()
+      .then(result => {
+        if (cancelled) return;
+        setOwners(result);
+        // Keep a restored owner the account can still use, otherwise start from the user's own repositories
+        const currentPath = folderPathRef.current;
+        if (!result.some(owner => owner.login === currentPath.username)) {
+          const newPath = { ...currentPath, username: result[0].login, repo: '' };
+          setFolderPath(newPath);
+          onFolderPathChangeRef.current(newPath);
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading repository owners:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your GitHub accounts and organizations",
+          variant: "destructive"
         });
-      }
-    } catch (error) {
-      console.error('Error loading repositories:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load your repositories",
-        variant: "destructive"
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingOwners(false);
       });
-    } finally {
-      setLoadingRepos(false);
+    return () => {
+      cancelled = true;
+    };
+  }, [githubService, isAuthenticated, githubLogin, toast]);
+
+  // Check what the token can do with the selected repository before offering uploads
+  useEffect(() => {
+    if (!isAuthenticated || !folderPath.username || !folderPath.repo) {
+      setRepoPermissions(null);
+      return;
     }
-  };
+
+    let cancelled = false;
+    setCheckingPermissions(true);
+    githubService.getRepositoryPermissions(folderPath.username, folderPath.repo)
+      .then(permissions => {
+        if (!cancelled) setRepoPermissions(permissions);
+      })
+      .catch(() => {
+        if (!cancelled) setRepoPermissions(null);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingPermissions(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [githubService, isAuthenticated, folderPath.username, folderPath.repo]);
+
+  const canCreateRepos = isAuthenticated ? githubService.canCreateRepositories() : null;
 
   const handleCopyUrl = () => {
     if (previewData?.baseUrl) {
@@ -126,11 +205,47 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
     }
   }, [githubService, toast]);
 
+  const handlePinnedRefChange = (ref: string | null) => {
+    setPinnedRef(ref);
+    onPinnedRefChange?.(ref);
+  };
+
+  const handlePullRequestChange = (updated: CardPullRequest | null) => {
+    setPullRequest(updated);
+    onPullRequestChange?.(updated);
+    // The assets only reach the default branch with the merge commit
+    if (updated?.state === 'merged' && updated.mergeCommitSha) {
+      setUploadedCommit(prev => prev && { ...prev, commitSha: updated.mergeCommitSha! });
+    }
+    if (updated?.state === 'closed') {
+      setUploadSuccess(false);
+    }
+  };
+
+  const handleStorageProviderChange = (providerId: StorageProviderId) => {
+    setStorageProviderId(providerId);
+    setStorageBaseUrl(null);
+    onStorageChange?.(providerId, null);
+  };
+
+  const handleStoragePublished = (baseUrl: string) => {
+    setStorageBaseUrl(baseUrl);
+    onStorageChange?.(storageProviderId, baseUrl);
+  };
+
   // Update handlePathChange to check visibility when repo changes
   const handlePathChange = (field: keyof FolderPath, value: string) => {
     const newPath = { ...folderPath, [field]: value };
     setFolderPath(newPath);
     onFolderPathChange(newPath);
+
+    // A pinned ref or pull request belongs to the previous location
+    if (pinnedRef) {
+      handlePinnedRefChange(null);
+    }
+    if (pullRequest) {
+      handlePullRequestChange(null);
+    }
     
     // Check repository visibility when username and repo are set
     if (field === 'repo' && newPath.username && newPath.repo) {
@@ -142,9 +257,11 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
   const [previewTimestamp, setPreviewTimestamp] = useState(Date.now());
 
   // Construct the preview URL
-  const previewUrl = folderPath.username && folderPath.repo && folderPath.folder 
-    ? `https://cdn.jsdelivr.net/gh/${folderPath.username}/${folderPath.repo}/og/${folderPath.folder}`
-    : null;
+  const previewUrl = storageProviderId !== 'github'
+    ? storageBaseUrl
+    : folderPath.username && folderPath.repo && folderPath.folder
+      ? buildJsDelivrBaseUrl(folderPath, pinnedRef)
+      : null;
 
   // Construct the yodl preview URL with proper format and timestamp for cache busting
   const yodlPreviewUrl = previewUrl 
@@ -163,8 +280,25 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
 
   const handleAuthChange = (authenticated: boolean) => {
     setIsAuthenticated(authenticated);
+    // Switching accounts keeps authenticated true, so the login tells the owner list to reload
+    setGithubLogin(authenticated ? githubService.getUser()?.login ?? null : null);
   };
 
+  const handleOwnerChange = (owner: string) => {
+    const newPath = { ...folderPath, username: owner, repo: '' };
+    setFolderPath(newPath);
+    onFolderPathChange(newPath);
+    setShowVisibilityWarning(false);
+    if (pinnedRef) {
+      handlePinnedRefChange(null);
+    }
+    if (pullRequest) {
+      handlePullRequestChange(null);
+    }
+  };
+
+  const selectedOwner = owners.find(owner => owner.login === folderPath.username);
+
   const handleUploadToGitHub = async () => {
     // Check if all required files are present
     const missingFiles = ['inner', 'outer', 'overlay'].filter(
@@ -189,6 +323,15 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
       });
       return;
     }
+
+    if (repoPermissions && !repoPermissions.write) {
+      toast({
+        title: "Token can't write to this repository",
+        description: "Connect GitHub with a token that has write access to it, or pick another repository.",
+        variant: "destructive"
+      });
+      return;
+    }
     
     // *** Explicitly check repository visibility before showing confirmation ***
     try {
@@ -224,13 +367,34 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
     
     try {
       // Upload files
-      const result = await githubService.uploadOgCardAssets(folderPath, files);
+      const storage = new GitHubStorageProvider(folderPath.username, folderPath.repo, githubService);
+      let result: StorageUploadResult;
+      if (publishMode === 'pull-request') {
+        const proposed = await storage.proposeCard(folderPath.folder, files);
+        handlePullRequestChange(proposed.pullRequest);
+        result = proposed;
+      } else {
+        result = await storage.uploadCard(folderPath.folder, files);
+        // Committed directly, so an earlier pull request no longer holds up the ENS step
+        if (pullRequest) {
+          handlePullRequestChange(null);
+        }
+      }
       
-      if (result.success) {
+      if (result.commitSha) {
         setUploadSuccess(true);
+        setUploadedCommit({
+          owner: folderPath.username,
+          repo: folderPath.repo,
+          commitSha: result.commitSha,
+          // GitHub always reports the blob SHA of each file
+          files: result.files.map(file => ({ path: file.path, sha: file.sha! }))
+        });
         toast({
-          title: "Upload successful",
-          description: "Assets have been uploaded to your GitHub repository",
+          title: publishMode === 'pull-request' ? "Pull request opened" : "Upload successful",
+          description: publishMode === 'pull-request'
+            ? "Assets are on a branch of your repository and go live once the pull request is merged"
+            : "Assets have been uploaded to your GitHub repository",
         });
         
         // Close the dialog after success
@@ -263,7 +427,8 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
     setCreatingRepo(true);
     try {
       // Use the new method specifically for creating public repositories
-      const result = await githubService.createNewPublicRepository(newRepoName);
+      const org = selectedOwner?.type === 'Organization' ? selectedOwner.login : undefined;
+      const result = await githubService.createNewPublicRepository(newRepoName, org);
       toast({
         title: "Repository created successfully",
         description: `Public repository '${result.full_name}' created.`,
@@ -271,14 +436,22 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
       
       // Set the repository in the form
       const owner = result.full_name.split('/')[0];
-      handlePathChange('repo', result.name);
-      handlePathChange('username', owner);
+      const newPath = { ...folderPath, username: owner, repo: result.name };
+      setFolderPath(newPath);
+      onFolderPathChange(newPath);
+      if (pinnedRef) {
+        handlePinnedRefChange(null);
+      }
+      if (pullRequest) {
+        handlePullRequestChange(null);
+      }
       
       // Reload repositories list to include the new one
-      await loadRepositories();
+      setRepoListKey(key => key + 1);
       
       // Reset the input field and hide visibility warning
       setNewRepoName('');
+      setShowCreateRepo(false);
       setShowVisibilityWarning(false);
       
     } catch (error) {
@@ -301,7 +474,7 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
         <CardHeader>
           <CardTitle>Preview Configuration</CardTitle>
           <CardDescription>
-            Set up your GitHub repository details for asset storage
+            Choose where to store your card assets
             {uploadSuccess && (
               <span className="ml-2 text-green-500 text-sm">(Files uploaded successfully)</span>
             )}
@@ -309,53 +482,84 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
         </CardHeader>
         
         <CardContent className="space-y-6">
-          <div className="mb-4">
-            <h3 className="text-sm font-medium mb-2">GitHub Connection</h3>
-            <GitHubLogin onAuthChange={handleAuthChange} />
+          <div>
+            <Label htmlFor="storage-backend">Storage Backend</Label>
+            <Select
+              value={storageProviderId}
+              onValueChange={(value) => handleStorageProviderChange(value as StorageProviderId)}
+            >
+              <SelectTrigger id="storage-backend" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STORAGE_BACKENDS.map(backend => (
+                  <SelectItem key={backend.id} value={backend.id}>
+                    {backend.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+
+          {storageProviderId === 'github' ? (
+            <>
+            <div className="mb-4">
+              <h3 className="text-sm font-medium mb-2">GitHub Connection</h3>
+              <GitHubLogin onAuthChange={handleAuthChange} />
+            </div>
           
-          {isAuthenticated ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="repo">Repository</Label>
-                {loadingRepos ? (
-                  <div className="h-10 flex items-center">
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                    Loading repositories...
-                  </div>
-                ) : repositories.length > 0 ? (
-                  <Select 
-                    value={folderPath.repo}
-                    onValueChange={(value) => handlePathChange('repo', value)}
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Select repository" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {repositories.map(repo => (
-                        <SelectItem key={repo.id} value={repo.name}>
-                          {repo.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                ) : (
-                  <div className="text-sm text-amber-500 p-2 rounded-md border border-amber-200 bg-amber-50">
-                    No repositories found. Please create a repository on GitHub first.
-                  </div>
-                )}
-              </div>
+            {isAuthenticated ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="owner">Owner</Label>
+                  {loadingOwners ? (
+                    <div className="h-10 flex items-center">
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      Loading accounts...
+                    </div>
+                  ) : (
+                    <Select value={folderPath.username} onValueChange={handleOwnerChange}>
+                      <SelectTrigger id="owner" className="w-full">
+                        <SelectValue placeholder="Select owner" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {owners.map(owner => (
+                          <SelectItem key={owner.login} value={owner.login}>
+                            {owner.login}
+                            {owner.type === 'Organization' && <span className="ml-2 text-xs text-muted-foreground">(organization)</span>}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <Label>Repository</Label>
+                  {folderPath.username && !loadingOwners && (
+                    <RepositoryPicker
+                      owner={folderPath.username}
+                      value={folderPath.repo}
+                      onChange={(repo) => handlePathChange('repo', repo.name)}
+                      refreshKey={repoListKey}
+                      onEmptyChange={setShowCreateRepo}
+                    />
+                  )}
+                  {!showCreateRepo && (
+                    <Button variant="link" size="sm" className="px-0" onClick={() => setShowCreateRepo(true)}>
+                      Create a new repository{selectedOwner?.type === 'Organization' ? ` in ${selectedOwner.login}` : ''}
+                    </Button>
+                  )}
+                </div>
               
-              <div>
-                <Label htmlFor="folder">Folder Name</Label>
-                <Input 
-                  id="folder" 
-                  placeholder="Auto-generated unique name" 
-                  value={folderPath.folder}
-                  onChange={(e) => handlePathChange('folder', e.target.value)}
-                />
+                <div>
+                  <Label htmlFor="folder">Folder Name</Label>
+                  <Input 
+                    id="folder" 
+                    placeholder="Auto-generated unique name" 
+                    value={folderPath.folder}
+                    onChange={(e) => handlePathChange('folder', e.target.value)}
+                  />
+                </div>
               </div>
-            </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               <div>
@@ -390,14 +594,32 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
             </div>
           )}
 
-          {isAuthenticated && repositories.length === 0 && (
+          {isAuthenticated && folderPath.repo && (
+            <TokenPermissionChecklist
+              repo={folderPath.repo}
+              permissions={repoPermissions}
+              loading={checkingPermissions}
+            />
+          )}
+
+          {isAuthenticated && folderPath.username && folderPath.repo && repoPermissions?.write !== false && (
+            <div className="flex justify-end">
+              <CardFolderCleanup
+                owner={folderPath.username}
+                repo={folderPath.repo}
+                currentFolder={folderPath.folder}
+              />
+            </div>
+          )}
+
+          {isAuthenticated && showCreateRepo && (
             <div className="mt-2">
               <Card className="border-dashed">
                 <CardContent className="pt-4">
                   <div className="space-y-4">
                     <h3 className="text-sm font-semibold">Create a Repository</h3>
                     <p className="text-sm text-muted-foreground">
-                      Create a new GitHub repository to store your OG card assets
+                      Create a new GitHub repository under {folderPath.username || 'your account'} to store your OG card assets
                     </p>
                     
                     <div className="flex items-end gap-2">
@@ -413,7 +635,7 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
                       <div>
                         <Button
                           onClick={handleCreateRepository}
-                          disabled={!newRepoName.trim() || creatingRepo}
+                          disabled={!newRepoName.trim() || creatingRepo || canCreateRepos === false}
                         >
                           {creatingRepo ? (
                             <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Creating...</>
@@ -430,6 +652,7 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
                         <AlertTitle className="text-blue-800 text-sm">Public Repository Required</AlertTitle>
                         <AlertDescription className="text-blue-700 text-xs">
                           OG card assets must be stored in a public repository to be accessible via CDN.
+                          {canCreateRepos === false && ' This token has no public_repo or repo scope, so it cannot create one.'}
                         </AlertDescription>
                       </Alert>
                     </div>
@@ -449,6 +672,38 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
               </AlertDescription>
             </Alert>
           )}
+          </>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="storage-folder">Folder Name</Label>
+                <Input
+                  id="storage-folder"
+                  placeholder="Auto-generated unique name"
+                  value={folderPath.folder}
+                  onChange={(e) => handlePathChange('folder', e.target.value)}
+                />
+              </div>
+              <StorageBackendPanel
+                key={storageProviderId}
+                providerId={storageProviderId}
+                folder={folderPath.folder}
+                files={files}
+                publishedBaseUrl={storageBaseUrl}
+                onPublished={handleStoragePublished}
+              />
+            </>
+          )}
+
+          {previewData && (
+            <div className="bg-muted rounded-md p-4">
+              <h3 className="text-sm font-medium mb-2">Approximate Local Preview</h3>
+              <CardCompositor
+                sources={previewData.files}
+                fileName={`${folderPath.folder || 'og-card'}.png`}
+              />
+            </div>
+          )}
 
           {previewUrl && (
             <div className="mt-6 space-y-4">
@@ -547,19 +802,80 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
             </div>
           )}
           
-          <Button
-            className="w-full"
-            onClick={handleUploadToGitHub}
-            disabled={!previewData || !folderPath.username || !folderPath.repo || uploadSuccess || !isAuthenticated}
-          >
-            <Github className="mr-2 h-4 w-4" />
-            {uploadSuccess ? 'Files Uploaded Successfully' : isAuthenticated ? 'Upload Assets to GitHub' : 'Connect GitHub to Upload'}
-          </Button>
+          {storageProviderId === 'github' && (
+            <>
+            {isAuthenticated && (
+              <div className="space-y-2">
+                <Label>Publish mode</Label>
+                <RadioGroup
+                  value={publishMode}
+                  onValueChange={(value) => setPublishMode(value as PublishMode)}
+                  className="space-y-1"
+                  disabled={uploadSuccess}
+                >
+                  <div className="flex items-start space-x-2">
+                    <RadioGroupItem value="commit" id="publish-commit" className="mt-0.5" />
+                    <Label htmlFor="publish-commit" className="font-normal">
+                      Commit to the default branch
+                    </Label>
+                  </div>
+                  <div className="flex items-start space-x-2">
+                    <RadioGroupItem value="pull-request" id="publish-pull-request" className="mt-0.5" />
+                    <Label htmlFor="publish-pull-request" className="font-normal">
+                      Propose changes in a pull request
+                      <span className="block text-xs text-muted-foreground">
+                        Commits to branch og/{folderPath.folder || '<folder>'} and opens a pull request, for protected branches or review before the card goes live
+                      </span>
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            {isAuthenticated && pullRequest && (
+              <PullRequestStatus pullRequest={pullRequest} onChange={handlePullRequestChange} />
+            )}
+
+            <Button
+              className="w-full"
+              onClick={handleUploadToGitHub}
+              disabled={!previewData || !folderPath.username || !folderPath.repo || uploadSuccess || !isAuthenticated || repoPermissions?.write === false}
+            >
+              <Github className="mr-2 h-4 w-4" />
+              {uploadSuccess
+                ? (pullRequest ? 'Pull Request Opened' : 'Files Uploaded Successfully')
+                : !isAuthenticated
+                  ? 'Connect GitHub to Upload'
+                  : publishMode === 'pull-request' ? 'Open Pull Request' : 'Upload Assets to GitHub'}
+            </Button>
+          
+            {isAuthenticated && (uploadedCommit || pinnedRef) && (!pullRequest || pullRequest.state === 'merged') && (
+              <PublishRefSelector
+                key={`${folderPath.username}/${folderPath.repo}/${folderPath.folder}`}
+                owner={folderPath.username}
+                repo={folderPath.repo}
+                folder={folderPath.folder}
+                commitSha={uploadedCommit?.commitSha || (pinnedRef && /^[0-9a-f]{40}$/i.test(pinnedRef) ? pinnedRef : null)}
+                value={pinnedRef}
+                onChange={handlePinnedRefChange}
+              />
+            )}
+
+            {uploadSuccess && uploadedCommit && (!pullRequest || pullRequest.state === 'merged') && (
+              <CdnPropagationStatus
+                owner={uploadedCommit.owner}
+                repo={uploadedCommit.repo}
+                files={uploadedCommit.files}
+                onComplete={(allLive) => allLive && handleRefreshPreview()}
+              />
+            )}
           
-          {!isAuthenticated && (
-            <p className="text-sm text-muted-foreground text-center">
-              Sign in to GitHub to upload assets directly to your repository
-            </p>
+            {!isAuthenticated && (
+              <p className="text-sm text-muted-foreground text-center">
+                Sign in to GitHub to upload assets directly to your repository
+              </p>
+            )}
+            </>
           )}
         </CardContent>
         
@@ -567,16 +883,18 @@ const PreviewCard: React.FC<PreviewCardProps> = ({ previewData, onFolderPathChan
           <p className="text-xs text-muted-foreground">
             Files will be uploaded to this location when you proceed
           </p>
-          {isAuthenticated && <RateLimitIndicator />}
+          {storageProviderId === 'github' && isAuthenticated && <RateLimitIndicator />}
         </CardFooter>
       </Card>
       
       <Dialog open={confirmUploadDialog} onOpenChange={setConfirmUploadDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Upload</DialogTitle>
+            <DialogTitle>{publishMode === 'pull-request' ? 'Confirm Pull Request' : 'Confirm Upload'}</DialogTitle>
             <DialogDescription>
-              Files will be uploaded to your GitHub repository:
+              {publishMode === 'pull-request'
+                ? `Files will be committed to branch og/${folderPath.folder} and proposed in a pull request:`
+                : 'Files will be uploaded to your GitHub repository:'}
               <span className="font-mono text-xs block mt-1 p-1 bg-muted rounded">
                 {folderPath.username}/{folderPath.repo}/og/{folderPath.folder}
               </span>
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, Tag } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { GitHubService } from '@/lib/githubService';
+
+type PinMode = 'latest' | 'commit' | 'tag';
+
+interface PublishRefSelectorProps {
+  owner: string;
+  repo: string;
+  folder: string;
+  commitSha: string | null; // Commit of the last upload, if any
+  value: string | null; // Currently pinned ref, null for "always latest"
+  onChange: (ref: string | null) => void;
+}
+
+const isCommitSha = (ref: string) => /^[0-9a-f]{40}$/i.test(ref);
+
+// og-card-v1 -> og-card-v2, so the tag for a new upload doesn't collide with the old one
+const nextTagName = (tag: string) => {
+  const match = tag.match(/^(.*-v)(\d+)$/);
+  return match ? `${match[1]}${Number(match[2]) + 1}` : `${tag}-v2`;
+};
+
+const PublishRefSelector: React.FC<PublishRefSelectorProps> = ({ owner, repo, folder, commitSha, value, onChange }) => {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<PinMode>(() => (!value ? 'latest' : isCommitSha(value) ? 'commit' : 'tag'));
+  const [tagName, setTagName] = useState(() => (value && !isCommitSha(value) ? value : `og-${folder}-v1`));
+  const [creatingTag, setCreatingTag] = useState(false);
+  const previousCommitSha = useRef(commitSha);
+  // Kept in a ref so a new callback from the parent doesn't re-run the effect below
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // A new upload (or the merge commit of its pull request) makes the old pin stale
+  useEffect(() => {
+    if (commitSha === previousCommitSha.current) return;
+    previousCommitSha.current = commitSha;
+    if (!commitSha) return;
+
+    if (mode === 'commit' && value !== commitSha) {
+      onChangeRef.current(commitSha);
+    } else if (mode === 'tag' && value) {
+      // The existing tag still points at the previous upload, so a new one has to be created
+      onChangeRef.current(null);
+      setTagName(nextTagName(value));
+    }
+  }, [commitSha, mode, value]);
+
+  const handleModeChange = (newMode: PinMode) => {
+    setMode(newMode);
+    if (newMode === 'latest') {
+      onChange(null);
+    } else if (newMode === 'commit') {
+      onChange(commitSha);
+    }
+    // Tag mode only changes the published URL once the tag exists
+  };
+
+  const handleCreateTag = async () => {
+    if (!commitSha || !tagName.trim()) return;
+
+    setCreatingTag(true);
+    try {
+      const githubService = new GitHubService();
+      await githubService.createTag(owner, repo, tagName.trim(), commitSha);
+      onChange(tagName.trim());
+      toast({ title: "Tag created", description: `${tagName.trim()} points at ${commitSha.substring(0, 7)}` });
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      toast({
+        title: "Tag creation failed",
+        description: error instanceof Error ? error.message : "Could not create the tag",
+        variant: "destructive"
+      });
+    } finally {
+      setCreatingTag(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-md">
+      <div>
+        <h4 className="text-sm font-medium">Published URL</h4>
+        <p className="text-xs text-muted-foreground">
+          Pinned URLs never change, so jsDelivr can't serve a stale branch copy.
+        </p>
+      </div>
+
+      <RadioGroup value={mode} onValueChange={(v) => handleModeChange(v as PinMode)} className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="latest" id="pin-latest" />
+          <Label htmlFor="pin-latest" className="text-sm">Always latest (follows the default branch)</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="commit" id="pin-commit" disabled={!commitSha} />
+          <Label htmlFor="pin-commit" className="text-sm">
+            Pinned to upload commit{commitSha ? ` (${commitSha.substring(0, 7)})` : ' - upload first'}
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="tag" id="pin-tag" disabled={!commitSha && !value} />
+          <Label htmlFor="pin-tag" className="text-sm">Pinned to a tag</Label>
+        </div>
+      </RadioGroup>
+
+      {mode === 'tag' && (
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Label htmlFor="pin-tag-name" className="text-xs">Tag name</Label>
+            <Input
+              id="pin-tag-name"
+              value={tagName}
+              onChange={(e) => setTagName(e.target.value)}
+              className="font-mono text-sm"
+            />
+          </div>
+          <Button
+            variant="secondary"
+            onClick={handleCreateTag}
+            disabled={!commitSha || !tagName.trim() || creatingTag || value === tagName.trim()}
+          >
+            {creatingTag ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Tag className="h-4 w-4 mr-2" />}
+            {value === tagName.trim() ? 'Tagged' : 'Create Tag'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PublishRefSelector;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ExternalLink, GitMerge, GitPullRequest, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { GitHubService } from '@/lib/githubService';
+import { CardPullRequest } from '@/lib/types';
+
+interface PullRequestStatusProps {
+  pullRequest: CardPullRequest;
+  onChange: (pullRequest: CardPullRequest) => void;
+}
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// Merge state of the pull request a card was proposed in, checked until it is merged or closed
+const PullRequestStatus: React.FC<PullRequestStatusProps> = ({ pullRequest, onChange }) => {
+  const githubService = useMemo(() => new GitHubService(), []);
+  const [checking, setChecking] = useState(false);
+  // Kept in a ref so a new callback from the parent doesn't restart polling
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const checkStatus = useCallback(async () => {
+    setChecking(true);
+    try {
+      const updated = await githubService.getPullRequest(pullRequest);
+      if (updated.state !== pullRequest.state || updated.mergeCommitSha !== pullRequest.mergeCommitSha) {
+        onChangeRef.current(updated);
+      }
+    } catch (error) {
+      console.error('Error checking pull request:', error);
+    } finally {
+      setChecking(false);
+    }
+  }, [githubService, pullRequest]);
+
+  useEffect(() => {
+    if (pullRequest.state !== 'open') return;
+
+    checkStatus();
+    const intervalId = setInterval(checkStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [pullRequest.state, checkStatus]);
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <a
+          href={pullRequest.htmlUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center font-medium text-primary"
+        >
+          {pullRequest.state === 'merged' ? <GitMerge className="h-4 w-4 mr-2" /> : <GitPullRequest className="h-4 w-4 mr-2" />}
+          Pull request #{pullRequest.number}
+          <ExternalLink className="h-3 w-3 ml-1" />
+        </a>
+        <div className="flex items-center gap-2">
+          {pullRequest.state === 'merged' ? (
+            <Badge className="bg-purple-600">Merged</Badge>
+          ) : pullRequest.state === 'closed' ? (
+            <Badge variant="destructive">Closed</Badge>
+          ) : (
+            <Badge variant="secondary">Open</Badge>
+          )}
+          {pullRequest.state === 'open' && (
+            <Button variant="ghost" size="sm" onClick={checkStatus} disabled={checking}>
+              {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {pullRequest.state === 'merged' ? (
+          'The card is on the default branch. You can continue to the ENS step.'
+        ) : pullRequest.state === 'closed' ? (
+          <span className="flex items-center gap-1">
+            <XCircle className="h-3 w-3" /> Closed without merging. Upload again to open a new pull request.
+          </span>
+        ) : (
+          `Assets are on branch ${pullRequest.branch}. The ENS step unlocks once the pull request is merged.`
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default PullRequestStatus;
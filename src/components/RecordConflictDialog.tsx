@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ConflictChoice, mergeThreeWay, resolveConflicts } from '@/lib/recordMerge';
+
+type JsonObject = Record<string, unknown>;
+
+interface RecordConflictDialogProps {
+  open: boolean;
+  name: string;
+  base: JsonObject; // Record when editing started
+  theirs: JsonObject; // Record on-chain now
+  mine: JsonObject; // Record with the user's edits
+  onResolve: (record: JsonObject) => void;
+  onCancel: () => void;
+}
+
+const formatValue = (value: unknown) => value === undefined ? '(none)' : JSON.stringify(value, null, 2);
+
+// Three-way view of a record that changed on-chain while it was being edited
+const RecordConflictDialog: React.FC<RecordConflictDialogProps> = ({ open, name, base, theirs, mine, onResolve, onCancel }) => {
+  const merge = useMemo(() => mergeThreeWay(base, theirs, mine), [base, theirs, mine]);
+  const [choices, setChoices] = useState<{ [path: string]: ConflictChoice }>({});
+  const resolved = useMemo(() => resolveConflicts(merge, choices), [merge, choices]);
+
+  useEffect(() => {
+    setChoices({});
+  }, [merge]);
+
+  // Top-level keys that differ between any of the three versions
+  const changedKeys = Array.from(new Set([...Object.keys(base), ...Object.keys(theirs), ...Object.keys(mine)]))
+    .filter(key => {
+      const values = [base[key], theirs[key], mine[key]].map(value => JSON.stringify(value));
+      return new Set(values).size > 1;
+    });
+  const conflictKeys = new Set(merge.conflicts.map(conflict => conflict.path[0]));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Record changed on-chain</DialogTitle>
+          <DialogDescription>
+            The me.yodl record of {name} was updated since you loaded it. Changes that don't overlap are
+            combined; pick a side for each conflict before writing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-x-3 gap-y-2 text-xs">
+          <div />
+          <div className="font-medium">Base (when loaded)</div>
+          <div className="font-medium">Theirs (on-chain now)</div>
+          <div className="font-medium">Mine (your edits)</div>
+          {changedKeys.map(key => (
+            <React.Fragment key={key}>
+              <div className={cn("font-mono font-medium", conflictKeys.has(key) && "text-destructive")}>{key}</div>
+              {[base[key], theirs[key], mine[key]].map((value, i) => (
+                <pre
+                  key={i}
+                  className={cn(
+                    "bg-muted p-2 rounded-md font-mono whitespace-pre-wrap break-all max-h-32 overflow-auto",
+                    conflictKeys.has(key) && "border border-destructive/50"
+                  )}
+                >
+                  {formatValue(value)}
+                </pre>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+
+        {merge.conflicts.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="flex items-center gap-2 text-sm font-medium">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              {merge.conflicts.length} {merge.conflicts.length === 1 ? 'conflict' : 'conflicts'}
+            </h4>
+            {merge.conflicts.map(conflict => {
+              const path = conflict.path.join('.');
+              return (
+                <div key={path} className="space-y-1">
+                  <code className="text-xs">{path}</code>
+                  <RadioGroup
+                    value={choices[path] || 'mine'}
+                    onValueChange={(value) => setChoices(prev => ({ ...prev, [path]: value as ConflictChoice }))}
+                    className="flex gap-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="theirs" id={`conflict-${path}-theirs`} />
+                      <Label htmlFor={`conflict-${path}-theirs`} className="font-mono text-xs break-all">
+                        Theirs: {formatValue(conflict.theirs)}
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="mine" id={`conflict-${path}-mine`} />
+                      <Label htmlFor={`conflict-${path}-mine`} className="font-mono text-xs break-all">
+                        Mine: {formatValue(conflict.mine)}
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium mb-1">Record to write</h4>
+          <pre className="bg-muted p-2 rounded-md font-mono text-xs whitespace-pre max-h-48 overflow-auto">
+            {JSON.stringify(resolved, null, 2)}
+          </pre>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onResolve(resolved)}>Write Merged Record</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordConflictDialog;
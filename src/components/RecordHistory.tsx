@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { Hash } from 'viem';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, ExternalLink, History, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { ENSService, TextRecordVersion } from '@/lib/ensService';
+import { config } from '@/lib/rainbowkit';
+import { getEnsNetwork } from '@/lib/ensNetworks';
+import { diffRecords, RecordChange } from '@/lib/recordDiff';
+
+const RECORD_KEY = 'me.yodl';
+
+interface RecordHistoryProps {
+  ensName: string;
+  chainId: number;
+}
+
+const parseRecord = (value: string | null): Record<string, unknown> | null => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Changes a version made to the one before it, or null when either isn't a JSON object
+const diffVersions = (previous: TextRecordVersion | undefined, version: TextRecordVersion): RecordChange[] | null => {
+  const before = parseRecord(previous?.value ?? null);
+  const after = parseRecord(version.value);
+  return before && after ? diffRecords(before, after) : null;
+};
+
+// Timeline of past me.yodl values from the resolver's TextChanged events, with restore
+const RecordHistory: React.FC<RecordHistoryProps> = ({ ensName, chainId }) => {
+  const { toast } = useToast();
+  const { isConnected } = useAccount();
+  const ensService = useMemo(() => new ENSService(), []);
+  const [versions, setVersions] = useState<TextRecordVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<Hash | null>(null);
+  const [searchedFrom, setSearchedFrom] = useState<bigint | null>(null); // Oldest block searched so far
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await ensService.getTextRecordHistory(ensName, RECORD_KEY, chainId);
+      setVersions(page.versions);
+      setSearchedFrom(page.fromBlock);
+    } catch (error) {
+      setError(error instanceof Error ? error.message.split('\n')[0] : 'Could not read the record history');
+    } finally {
+      setLoading(false);
+    }
+  }, [ensService, ensName, chainId]);
+
+  const handleLoadOlder = async () => {
+    if (searchedFrom === null) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await ensService.getTextRecordHistory(ensName, RECORD_KEY, chainId, searchedFrom);
+      setVersions(prev => [...page.versions, ...prev]);
+      setSearchedFrom(page.fromBlock);
+    } catch (error) {
+      toast({
+        title: "Could not load older changes",
+        description: error instanceof Error ? error.message.split('\n')[0] : "The RPC rejected the request",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Writes the old value back through the same signing flow as any other update
+  const handleRestore = async (version: TextRecordVersion) => {
+    if (version.value === null) return;
+
+    setRestoring(version.transactionHash);
+    try {
+      const batch = await ensService.prepareTextRecords(ensName, { [RECORD_KEY]: version.value }, chainId);
+      const hashes = await ensService.sendTextRecords(batch);
+      const receipts = await Promise.all(hashes.map(hash => waitForTransactionReceipt(config, { hash, chainId })));
+      if (receipts.some(receipt => receipt.status !== 'success')) {
+        throw new Error('The transaction reverted');
+      }
+
+      toast({
+        title: "Version restored",
+        description: `me.yodl for ${ensName} is back to the value from block ${version.blockNumber.toString()}`,
+      });
+      await loadHistory();
+    } catch (error) {
+      console.error('Error restoring record version:', error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message.split('\n')[0] : "The old value could not be written",
+        variant: "destructive"
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const explorerUrl = getEnsNetwork(chainId)?.chain.blockExplorers?.default.url;
+  const latest = versions[versions.length - 1];
+  const hasOlder = searchedFrom !== null && searchedFrom > 0n;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Record History
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={loadHistory} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>Past me.yodl values of {ensName}, newest first</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && versions.length === 0 ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Reading TextChanged events...
+          </div>
+        ) : error ? (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {hasOlder
+              ? `No changes since block ${searchedFrom!.toString()}.`
+              : 'No changes found. Records kept offchain or set before the current resolver have no history here.'}
+          </p>
+        ) : (
+          <ol className="border-l pl-4 space-y-4">
+            {versions.map((version, i) => ({
+              version,
+              // The version before the oldest one shown may be in a window that isn't loaded yet
+              changes: i === 0 && hasOlder ? null : diffVersions(versions[i - 1], version),
+            })).reverse().map(({ version, changes }) => (
+              <li key={`${version.transactionHash}-${version.blockNumber}`} className="space-y-2">
+                <div className="flex items-center gap-2 flex-wrap text-xs">
+                  <span className="font-medium">
+                    {version.timestamp ? new Date(version.timestamp * 1000).toLocaleString() : `Block ${version.blockNumber.toString()}`}
+                  </span>
+                  {version === latest && <Badge variant="secondary">Current</Badge>}
+                  {explorerUrl && (
+                    <a
+                      href={`${explorerUrl}/tx/${version.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-primary"
+                    >
+                      <ExternalLink className="h-3 w-3 mr-1" /> {version.transactionHash.substring(0, 10)}...
+                    </a>
+                  )}
+                </div>
+
+                {version.value === null ? (
+                  <p className="text-xs text-muted-foreground">
+                    This resolver didn't log the value, and the RPC can't read it at that block.
+                  </p>
+                ) : changes === null ? (
+                  <pre className="bg-muted p-2 rounded-md font-mono text-xs whitespace-pre-wrap break-all max-h-32 overflow-auto">
+                    {version.value || '(cleared)'}
+                  </pre>
+                ) : changes.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Same content as the version before.</p>
+                ) : (
+                  <div className="font-mono text-xs bg-muted rounded-md p-2 space-y-1 overflow-auto">
+                    {changes.map(change => (
+                      <div key={change.key}>
+                        {change.type !== 'added' && (
+                          <div className="text-red-600 break-all">- {change.key}: {JSON.stringify(change.before)}</div>
+                        )}
+                        {change.type !== 'removed' && (
+                          <div className="text-green-600 break-all">+ {change.key}: {JSON.stringify(change.after)}</div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {version !== latest && version.value !== null && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(version)}
+                    disabled={!isConnected || restoring !== null}
+                  >
+                    {restoring === version.transactionHash
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Restore this version
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {!loading && !error && hasOlder && (
+          <Button variant="outline" size="sm" className="w-full" onClick={handleLoadOlder} disabled={loadingOlder}>
+            {loadingOlder && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load changes before block {searchedFrom!.toString()}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecordHistory;
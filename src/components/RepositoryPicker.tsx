@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertCircle, Check, Loader2, Search } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { GitHubRepository, GitHubService } from '@/lib/githubService';
+
+interface RepositoryPickerProps {
+  owner: string;
+  value: string; // Selected repository name
+  onChange: (repo: GitHubRepository) => void;
+  refreshKey?: number; // Change to reload the list, e.g. after creating a repository
+  onEmptyChange?: (empty: boolean) => void; // Whether the owner has no repositories at all
+}
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Searchable, paginated list of an owner's repositories
+const RepositoryPicker: React.FC<RepositoryPickerProps> = ({ owner, value, onChange, refreshKey, onEmptyChange }) => {
+  const githubService = useMemo(() => new GitHubService(), []);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [repositories, setRepositories] = useState<GitHubRepository[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [search]);
+
+  // Start over from the first page whenever the owner or search changes
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    githubService.listRepositories(owner, { search: debouncedSearch })
+      .then(result => {
+        if (cancelled) return;
+        setRepositories(result.repositories);
+        setHasMore(result.hasMore);
+        setPage(1);
+        if (!debouncedSearch) {
+          onEmptyChange?.(result.repositories.length === 0);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load repositories');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [githubService, owner, debouncedSearch, refreshKey, onEmptyChange]);
+
+  const handleLoadMore = async () => {
+    setLoading(true);
+    try {
+      const result = await githubService.listRepositories(owner, { page: page + 1, search: debouncedSearch });
+      setRepositories(prev => [...prev, ...result.repositories]);
+      setHasMore(result.hasMore);
+      setPage(page + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load repositories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          placeholder={`Search ${owner}'s repositories`}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <ScrollArea className="h-48 rounded-md border">
+        <div className="p-1">
+          {repositories.map(repo => (
+            <button
+              key={repo.id}
+              type="button"
+              onClick={() => onChange(repo)}
+              className={cn(
+                "flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent",
+                repo.name === value && "bg-accent"
+              )}
+            >
+              <span className="flex items-center gap-2 truncate">
+                {repo.name === value ? <Check className="h-4 w-4 shrink-0" /> : <span className="w-4" />}
+                <span className="truncate">{repo.name}</span>
+              </span>
+              <span className="flex items-center gap-1 shrink-0">
+                {repo.visibility !== 'public' && <Badge variant="outline" className="text-xs">{repo.visibility}</Badge>}
+                {repo.canPush === false && <span className="text-xs text-muted-foreground">read-only</span>}
+              </span>
+            </button>
+          ))}
+
+          {loading ? (
+            <div className="flex items-center justify-center p-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading repositories...
+            </div>
+          ) : error ? (
+            <p className="flex items-center gap-2 p-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" /> {error}
+            </p>
+          ) : repositories.length === 0 ? (
+            <p className="p-2 text-sm text-muted-foreground">
+              {debouncedSearch ? `No repositories matching "${debouncedSearch}"` : `${owner} has no repositories yet`}
+            </p>
+          ) : hasMore && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={handleLoadMore}>
+              Load more
+            </Button>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default RepositoryPicker;
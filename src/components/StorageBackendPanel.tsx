@@ -0,0 +1,307 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle, Loader2, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { ImageFile } from '@/lib/types';
+import { StorageProvider, StorageProviderId, StoredCard } from '@/lib/storageProvider';
+import { DEFAULT_IPFS_CONFIG, IpfsStorageConfig, IpfsStorageProvider } from '@/lib/ipfsStorageProvider';
+import { DEFAULT_S3_CONFIG, S3StorageConfig, S3StorageProvider } from '@/lib/s3StorageProvider';
+import { DEFAULT_LOCAL_CONFIG, LocalStorageConfig, LocalStorageProvider } from '@/lib/localStorageProvider';
+
+// Providers configured through this panel; GitHub has its own flow in PreviewCard
+export type ConfigurableProviderId = Exclude<StorageProviderId, 'github'>;
+
+interface ConfigField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+}
+
+const CONFIG_FIELDS: Record<ConfigurableProviderId, ConfigField[]> = {
+  ipfs: [
+    { key: 'apiUrl', label: 'Pinning API URL', placeholder: 'https://api.pinata.cloud' },
+    { key: 'jwt', label: 'API token (JWT)', secret: true },
+    { key: 'gatewayUrl', label: 'Gateway URL', placeholder: 'https://gateway.pinata.cloud' },
+  ],
+  s3: [
+    { key: 'endpoint', label: 'Endpoint', placeholder: 'http://localhost:9000' },
+    { key: 'region', label: 'Region', placeholder: 'us-east-1' },
+    { key: 'bucket', label: 'Bucket', placeholder: 'og-cards' },
+    { key: 'accessKeyId', label: 'Access key ID' },
+    { key: 'secretAccessKey', label: 'Secret access key', secret: true },
+    { key: 'publicUrl', label: 'Public URL (optional)', placeholder: 'Defaults to <endpoint>/<bucket>' },
+  ],
+  local: [
+    { key: 'serverUrl', label: 'Dev server URL' },
+  ],
+};
+
+const DEFAULT_CONFIGS: Record<ConfigurableProviderId, Record<string, string>> = {
+  ipfs: { ...DEFAULT_IPFS_CONFIG },
+  s3: { ...DEFAULT_S3_CONFIG },
+  local: { ...DEFAULT_LOCAL_CONFIG },
+};
+
+const getConfigKey = (providerId: ConfigurableProviderId) => `storage_provider_config_${providerId}`;
+
+const isSecretField = (providerId: ConfigurableProviderId, key: string) =>
+  CONFIG_FIELDS[providerId].some(field => field.key === key && field.secret);
+
+// API tokens and secret keys are only kept in this page's memory, never in localStorage
+const sessionSecrets: Partial<Record<ConfigurableProviderId, Record<string, string>>> = {};
+
+function loadConfig(providerId: ConfigurableProviderId): Record<string, string> {
+  try {
+    const stored: Record<string, string> = JSON.parse(localStorage.getItem(getConfigKey(providerId)) || '{}');
+    const publicConfig = Object.fromEntries(Object.entries(stored).filter(([key]) => !isSecretField(providerId, key)));
+    // Earlier versions also saved the secrets, so drop them from storage
+    if (Object.keys(publicConfig).length !== Object.keys(stored).length) {
+      localStorage.setItem(getConfigKey(providerId), JSON.stringify(publicConfig));
+    }
+    return { ...DEFAULT_CONFIGS[providerId], ...publicConfig, ...sessionSecrets[providerId] };
+  } catch (error) {
+    console.error('Error reading storage provider config:', error);
+    return { ...DEFAULT_CONFIGS[providerId], ...sessionSecrets[providerId] };
+  }
+}
+
+function saveConfig(providerId: ConfigurableProviderId, config: Record<string, string>): void {
+  const publicConfig: Record<string, string> = {};
+  const secrets: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (isSecretField(providerId, key)) {
+      secrets[key] = value;
+    } else {
+      publicConfig[key] = value;
+    }
+  }
+  sessionSecrets[providerId] = secrets;
+  localStorage.setItem(getConfigKey(providerId), JSON.stringify(publicConfig));
+}
+
+function createProvider(providerId: ConfigurableProviderId, config: Record<string, string>): StorageProvider {
+  switch (providerId) {
+    case 'ipfs': {
+      const ipfsConfig: IpfsStorageConfig = { apiUrl: config.apiUrl, jwt: config.jwt, gatewayUrl: config.gatewayUrl };
+      return new IpfsStorageProvider(ipfsConfig);
+    }
+    case 's3': {
+      const s3Config: S3StorageConfig = {
+        endpoint: config.endpoint,
+        region: config.region,
+        bucket: config.bucket,
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+        publicUrl: config.publicUrl,
+      };
+      return new S3StorageProvider(s3Config);
+    }
+    case 'local': {
+      const localConfig: LocalStorageConfig = { serverUrl: config.serverUrl };
+      return new LocalStorageProvider(localConfig);
+    }
+  }
+}
+
+interface StorageBackendPanelProps {
+  providerId: ConfigurableProviderId;
+  folder: string;
+  files: ImageFile[];
+  publishedBaseUrl: string | null;
+  onPublished: (baseUrl: string) => void;
+}
+
+const StorageBackendPanel: React.FC<StorageBackendPanelProps> = ({ providerId, folder, files, publishedBaseUrl, onPublished }) => {
+  const { toast } = useToast();
+  const [config, setConfig] = useState(() => loadConfig(providerId));
+  const [uploading, setUploading] = useState(false);
+  const [cards, setCards] = useState<StoredCard[] | null>(null);
+  const [loadingCards, setLoadingCards] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<StoredCard | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const provider = useMemo(() => createProvider(providerId, config), [providerId, config]);
+
+  const handleConfigChange = (key: string, value: string) => {
+    const newConfig = { ...config, [key]: value };
+    setConfig(newConfig);
+    saveConfig(providerId, newConfig);
+  };
+
+  const handleUpload = async () => {
+    setUploading(true);
+    try {
+      const result = await provider.uploadCard(folder, files);
+      onPublished(result.baseUrl);
+      toast({
+        title: "Upload successful",
+        description: `Assets published to ${result.baseUrl}`,
+      });
+    } catch (error) {
+      console.error(`Error uploading to ${provider.label}:`, error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "An error occurred while uploading files",
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const loadCards = async () => {
+    setLoadingCards(true);
+    try {
+      setCards(await provider.listCards());
+    } catch (error) {
+      console.error(`Error listing cards in ${provider.label}:`, error);
+      toast({
+        title: "Could not list cards",
+        description: error instanceof Error ? error.message : "Failed to list stored cards",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingCards(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setDeleting(true);
+    try {
+      await provider.deleteCards([deleteTarget.id]);
+      toast({ title: "Card deleted", description: `Removed ${deleteTarget.name}` });
+      setDeleteTarget(null);
+      await loadCards();
+    } catch (error) {
+      console.error(`Error deleting card from ${provider.label}:`, error);
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "An error occurred while deleting the card",
+        variant: "destructive"
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const missingFiles = ['inner', 'outer', 'overlay'].filter(name => !files.some(f => f.name === name && f.preview));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {CONFIG_FIELDS[providerId].map(field => (
+          <div key={field.key}>
+            <Label htmlFor={`storage-${providerId}-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`storage-${providerId}-${field.key}`}
+              type={field.secret ? 'password' : 'text'}
+              placeholder={field.placeholder}
+              value={config[field.key] || ''}
+              onChange={(e) => handleConfigChange(field.key, e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+        ))}
+      </div>
+
+      {CONFIG_FIELDS[providerId].some(field => field.secret) && (
+        <p className="text-xs text-muted-foreground">
+          Secrets are kept in memory only and have to be entered again after reloading the page.
+        </p>
+      )}
+
+      {providerId === 'local' && (
+        <p className="text-xs text-amber-600">
+          Files are written to .og-storage/ by the Vite dev server. The URLs are only reachable from this machine.
+        </p>
+      )}
+
+      <Button
+        className="w-full"
+        onClick={handleUpload}
+        disabled={uploading || missingFiles.length > 0 || !folder}
+      >
+        {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        {missingFiles.length > 0 ? `Missing ${missingFiles.join(', ')}.png` : `Upload Assets to ${provider.label}`}
+      </Button>
+
+      {publishedBaseUrl && (
+        <div className="flex items-center gap-2 text-xs text-green-600">
+          <CheckCircle className="h-4 w-4" />
+          <span className="font-mono break-all">{publishedBaseUrl}</span>
+        </div>
+      )}
+
+      <div className="space-y-2 p-3 border rounded-md">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">Stored Cards</h4>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={loadCards} disabled={loadingCards}>
+            <RefreshCw className={`h-3 w-3 mr-1 ${loadingCards ? 'animate-spin' : ''}`} />
+            {cards ? 'Refresh' : 'Load'}
+          </Button>
+        </div>
+        {cards && cards.length === 0 && (
+          <p className="text-xs text-muted-foreground">No cards stored yet</p>
+        )}
+        {cards?.map(card => (
+          <div key={card.id} className="flex items-center justify-between gap-2 text-xs">
+            <div className="min-w-0">
+              <div className="font-mono truncate">{card.name}</div>
+              <div className="text-muted-foreground truncate">{card.baseUrl}</div>
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onPublished(card.baseUrl)}>
+                Use
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDeleteTarget(card)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this card?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.name} will be removed from {provider.label}. ENS records pointing at it will stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StorageBackendPanel;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { CheckCircle, HelpCircle, Loader2, XCircle } from 'lucide-react';
+import { RepositoryPermissions } from '@/lib/githubService';
+
+interface TokenPermissionChecklistProps {
+  repo: string;
+  permissions: RepositoryPermissions | null;
+  loading: boolean;
+}
+
+const PermissionRow: React.FC<{ label: string; allowed: boolean | null; hint?: string }> = ({ label, allowed, hint }) => (
+  <li className="flex items-start gap-2">
+    {allowed === null ? (
+      <HelpCircle className="h-4 w-4 mt-0.5 text-muted-foreground" />
+    ) : allowed ? (
+      <CheckCircle className="h-4 w-4 mt-0.5 text-green-500" />
+    ) : (
+      <XCircle className="h-4 w-4 mt-0.5 text-destructive" />
+    )}
+    <span>
+      {label}
+      {hint && allowed !== true && <span className="block text-muted-foreground">{hint}</span>}
+    </span>
+  </li>
+);
+
+// What the connected GitHub token can do with the selected repository
+const TokenPermissionChecklist: React.FC<TokenPermissionChecklistProps> = ({ repo, permissions, loading }) => {
+  if (loading) {
+    return (
+      <div className="flex items-center text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 mr-2 animate-spin" /> Checking token permissions for {repo}...
+      </div>
+    );
+  }
+  if (!permissions) return null;
+
+  const isClassic = permissions.scopes !== null;
+
+  return (
+    <div className="rounded-md border p-3 text-xs space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Token access to {repo}</span>
+        <span className="text-muted-foreground">
+          {isClassic ? `Scopes: ${permissions.scopes!.join(', ') || 'none'}` : 'Fine-grained token'}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        <PermissionRow
+          label="Read repository"
+          allowed={permissions.read}
+          hint={isClassic ? 'Private repositories need the repo scope.' : 'Grant the token access to this repository.'}
+        />
+        <PermissionRow
+          label="Write card assets"
+          allowed={permissions.write}
+          hint={isClassic
+            ? 'Needs push access and the public_repo scope (repo for private repositories).'
+            : 'Needs push access and Contents: Read and write on this repository.'}
+        />
+        <PermissionRow
+          label="Create repositories"
+          allowed={permissions.canCreateRepos}
+          hint={permissions.canCreateRepos === null
+            ? 'Fine-grained tokens need Administration: Read and write on the account; GitHub doesn\'t report it.'
+            : 'Needs the public_repo or repo scope.'}
+        />
+      </ul>
+    </div>
+  );
+};
+
+export default TokenPermissionChecklist;
@@ -0,0 +1,95 @@
+import React, { useState, useMemo } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { validateYodlRecordJson, YodlRecord } from '@/lib/yodlRecordSchema';
+import YodlRecordForm from './YodlRecordForm';
+
+interface YodlRecordEditorProps {
+  value: string; // me.yodl record as JSON text
+  onChange: (json: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  textareaClassName?: string;
+}
+
+// Edits a me.yodl record either as raw JSON or through a form, validating it against the schema
+const YodlRecordEditor: React.FC<YodlRecordEditorProps> = ({ value, onChange, disabled, placeholder, textareaClassName }) => {
+  const [mode, setMode] = useState<'json' | 'form'>('json');
+  // An empty editor is treated as an empty record rather than a syntax error
+  const validation = useMemo(() => validateYodlRecordJson(value.trim() ? value : '{}'), [value]);
+
+  const handleFormChange = (record: YodlRecord) => {
+    onChange(JSON.stringify(record, null, 2));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Tabs value={mode} onValueChange={(v) => setMode(v as 'json' | 'form')}>
+        <TabsList className="grid grid-cols-2 w-48">
+          <TabsTrigger value="json">JSON</TabsTrigger>
+          <TabsTrigger value="form">Form</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="json">
+          <textarea
+            className={cn("w-full h-64 bg-muted p-4 rounded-md font-mono text-sm resize-none", textareaClassName)}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            spellCheck="false"
+            disabled={disabled}
+          />
+        </TabsContent>
+
+        <TabsContent value="form">
+          {validation.record ? (
+            <YodlRecordForm
+              record={validation.record}
+              onChange={handleFormChange}
+              errors={validation.errors}
+              disabled={disabled}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">
+              Fix the JSON syntax error before editing in form mode.
+            </p>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <div className="text-xs space-y-1">
+        {validation.syntaxError ? (
+          <p className="flex items-start gap-1 text-destructive">
+            <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            Invalid JSON: {validation.syntaxError}
+          </p>
+        ) : validation.errors.length > 0 ? (
+          // Form mode shows errors next to each field
+          mode === 'json' && validation.errors.map(error => (
+            <p key={`${error.path}-${error.message}`} className="flex items-start gap-1 text-destructive">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span><code>{error.path || 'record'}</code>: {error.message}</span>
+            </p>
+          ))
+        ) : value.trim() && (
+          <p className="flex items-center gap-1 text-green-600">
+            <CheckCircle className="h-3 w-3" />
+            Valid me.yodl record
+          </p>
+        )}
+        {validation.unknownKeys.length > 0 && (
+          <p className="flex items-start gap-1 text-amber-600">
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            <span>
+              Unknown {validation.unknownKeys.length === 1 ? 'key' : 'keys'}{' '}
+              {validation.unknownKeys.map(key => `"${key}"`).join(', ')} will be kept as-is but may be ignored by Yodl.
+            </span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default YodlRecordEditor;
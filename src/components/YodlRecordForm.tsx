@@ -0,0 +1,141 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { YODL_CHAINS, YODL_TOKENS, YODL_WEBHOOK_TYPES, YodlFieldError, YodlRecord } from '@/lib/yodlRecordSchema';
+
+interface YodlRecordFormProps {
+  record: YodlRecord;
+  onChange: (record: YodlRecord) => void;
+  errors: YodlFieldError[];
+  disabled?: boolean;
+}
+
+const YodlRecordForm: React.FC<YodlRecordFormProps> = ({ record, onChange, errors, disabled }) => {
+  // Set a top-level field, removing it when empty so unused fields don't end up in the record
+  const setField = <K extends keyof YodlRecord>(key: K, value: YodlRecord[K] | undefined) => {
+    const next = { ...record };
+    if (value === undefined || (Array.isArray(value) && value.length === 0) || value === '') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const toggleListValue = (key: 'tokenSymbols' | 'chains', value: string, checked: boolean) => {
+    const current: string[] = record[key] || [];
+    setField(key, checked ? [...current, value] : current.filter(item => item !== value));
+  };
+
+  const handleWebhookChange = (type: string, url: string) => {
+    const webhooks = { ...record.webhooks, [type]: url };
+    if (!url) {
+      delete webhooks[type as keyof typeof webhooks];
+    }
+    setField('webhooks', Object.keys(webhooks).length > 0 ? webhooks : undefined);
+  };
+
+  const renderErrors = (field: string) => {
+    const fieldErrors = errors.filter(error => error.path === field || error.path.startsWith(`${field}.`));
+    return fieldErrors.map(error => (
+      <p key={`${error.path}-${error.message}`} className="text-xs text-destructive mt-1">
+        {error.path !== field ? `${error.path}: ` : ''}{error.message}
+      </p>
+    ));
+  };
+
+  // Show symbols that aren't in the default list too, so they can be unchecked
+  const tokenOptions = Array.from(new Set([...YODL_TOKENS, ...(record.tokenSymbols || [])]));
+  const chainOptions = [
+    ...YODL_CHAINS,
+    ...(record.chains || []).filter(id => !YODL_CHAINS.some(chain => chain.id === id)).map(id => ({ id, label: id })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Accepted Tokens</Label>
+        <div className="grid grid-cols-3 md:grid-cols-4 gap-2 mt-2">
+          {tokenOptions.map(token => (
+            <div key={token} className="flex items-center space-x-2">
+              <Checkbox
+                id={`yodl-token-${token}`}
+                checked={record.tokenSymbols?.includes(token) || false}
+                onCheckedChange={(checked) => toggleListValue('tokenSymbols', token, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`yodl-token-${token}`} className="text-sm font-mono">{token}</Label>
+            </div>
+          ))}
+        </div>
+        {renderErrors('tokenSymbols')}
+      </div>
+
+      <div>
+        <Label>Accepted Chains</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+          {chainOptions.map(chain => (
+            <div key={chain.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`yodl-chain-${chain.id}`}
+                checked={record.chains?.includes(chain.id) || false}
+                onCheckedChange={(checked) => toggleListValue('chains', chain.id, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`yodl-chain-${chain.id}`} className="text-sm">{chain.label}</Label>
+            </div>
+          ))}
+        </div>
+        {renderErrors('chains')}
+      </div>
+
+      <div>
+        <Label htmlFor="yodl-redirect">Redirect URL</Label>
+        <Input
+          id="yodl-redirect"
+          placeholder="https://example.com/thanks"
+          value={record.redirect || ''}
+          onChange={(e) => setField('redirect', e.target.value)}
+          disabled={disabled}
+        />
+        {renderErrors('redirect')}
+      </div>
+
+      <div>
+        <Label>Webhooks</Label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+          {YODL_WEBHOOK_TYPES.map(type => (
+            <div key={type.id}>
+              <Label htmlFor={`yodl-webhook-${type.id}`} className="text-sm">{type.label}</Label>
+              <Input
+                id={`yodl-webhook-${type.id}`}
+                placeholder="https://webhook.example.com"
+                value={record.webhooks?.[type.id] || ''}
+                onChange={(e) => handleWebhookChange(type.id, e.target.value)}
+                className="font-mono text-xs"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+        {renderErrors('webhooks')}
+      </div>
+
+      <div>
+        <Label htmlFor="yodl-og-baseurl">Preview Card Base URL</Label>
+        <Input
+          id="yodl-og-baseurl"
+          placeholder="https://cdn.jsdelivr.net/gh/user/repo/og/folder"
+          value={record.og?.baseUrl || ''}
+          onChange={(e) => setField('og', e.target.value ? { ...record.og, baseUrl: e.target.value } : undefined)}
+          className="font-mono text-xs"
+          disabled={disabled}
+        />
+        {renderErrors('og')}
+      </div>
+    </div>
+  );
+};
+
+export default YodlRecordForm;
@@ -0,0 +1,14 @@
+import type { OwnedName } from '@/lib/nameIndexer';
+
+// Names held by the default anvil/hardhat accounts, keyed by lowercase address.
+// Register the same names on the local ENS deployment to write to them.
+export const OWNED_NAMES_FIXTURE: Record<string, OwnedName[]> = {
+  '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266': [
+    { name: 'yodl-test.eth', roles: ['primary', 'owner', 'manager'], expiresAt: 1893456000 },
+    { name: 'shop.yodl-test.eth', roles: ['manager'], expiresAt: null },
+    { name: 'tips.yodl-test.eth', roles: ['manager'], expiresAt: null },
+  ],
+  '0x70997970c51812dc3a010c7d01b50e0d17dc79c8': [
+    { name: 'second-test.eth', roles: ['owner', 'manager'], expiresAt: 1893456000 },
+  ],
+};
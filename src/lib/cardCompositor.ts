@@ -0,0 +1,104 @@
+import { ImageFile, PreviewData } from './types';
+
+type LayerName = ImageFile['name'];
+
+// Layout of a single layer on the card canvas
+interface LayerLayout {
+  name: LayerName;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fit: 'cover' | 'contain';
+}
+
+// Final card size, matching the inner.png the card expects
+export const CARD_SIZE = { width: 1200, height: 800 };
+
+// Layers in paint order for an approximate local preview, not the exact og.yodl.me layout:
+// inner fills the card, outer is the centered frame and overlay sits on the right half.
+// Check the published card on og.yodl.me for the real rendering.
+export const CARD_LAYERS: LayerLayout[] = [
+  { name: 'inner', x: 0, y: 0, width: 1200, height: 800, fit: 'cover' },
+  { name: 'outer', x: 160, y: 160, width: 880, height: 480, fit: 'contain' },
+  { name: 'overlay', x: 600, y: 0, width: 600, height: 800, fit: 'contain' },
+];
+
+export type CardSources = PreviewData['files'];
+
+// Collect layer sources from the uploaded image files
+export function getCardSources(files: ImageFile[]): CardSources {
+  return {
+    inner: files.find(f => f.name === 'inner')?.preview || null,
+    outer: files.find(f => f.name === 'outer')?.preview || null,
+    overlay: files.find(f => f.name === 'overlay')?.preview || null,
+  };
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for compositing'));
+    img.src = src;
+  });
+}
+
+function drawLayer(ctx: CanvasRenderingContext2D, img: HTMLImageElement, layout: LayerLayout) {
+  const scale = layout.fit === 'cover'
+    ? Math.max(layout.width / img.width, layout.height / img.height)
+    : Math.min(layout.width / img.width, layout.height / img.height);
+  const width = img.width * scale;
+  const height = img.height * scale;
+  const x = layout.x + (layout.width - width) / 2;
+  const y = layout.y + (layout.height - height) / 2;
+
+  ctx.save();
+  // Clip to the layer box so covered images don't bleed into other layers
+  ctx.beginPath();
+  ctx.rect(layout.x, layout.y, layout.width, layout.height);
+  ctx.clip();
+  ctx.drawImage(img, x, y, width, height);
+  ctx.restore();
+}
+
+// Render the composed card onto the given canvas. Missing layers are skipped.
+export async function renderCard(canvas: HTMLCanvasElement, sources: CardSources): Promise<void> {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // Load all layers before drawing so the paint order is preserved
+  const images = await Promise.all(
+    CARD_LAYERS.map(layer => (sources[layer.name] ? loadImage(sources[layer.name]!) : Promise.resolve(null)))
+  );
+
+  canvas.width = CARD_SIZE.width;
+  canvas.height = CARD_SIZE.height;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  CARD_LAYERS.forEach((layer, index) => {
+    const img = images[index];
+    if (img) {
+      drawLayer(ctx, img, layer);
+    }
+  });
+}
+
+// Render the card off-screen and export it as a PNG blob
+export async function exportCardPng(sources: CardSources): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  await renderCard(canvas, sources);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not convert canvas to blob'));
+      }
+    }, 'image/png');
+  });
+}
@@ -0,0 +1,139 @@
+import { buildJsDelivrFileUrl, buildJsDelivrPurgeUrl } from './cdnUrl';
+
+// Minimal CDN operations needed to verify an upload. Swap it out to test against a local stub.
+export interface CdnClient {
+  purge(url: string): Promise<void>;
+  fetchBytes(url: string): Promise<ArrayBuffer | null>; // null when the CDN has no file yet
+}
+
+export type PropagationState = 'pending' | 'purging' | 'waiting' | 'live' | 'failed';
+
+export interface FilePropagationStatus {
+  path: string;
+  url: string;
+  state: PropagationState;
+  attempts: number;
+  error?: string;
+}
+
+export interface PropagationOptions {
+  intervalMs?: number;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onStatus?: (statuses: FilePropagationStatus[]) => void;
+}
+
+// Default client talking to the public jsDelivr endpoints
+export class JsDelivrCdnClient implements CdnClient {
+  async purge(url: string): Promise<void> {
+    const response = await fetch(buildJsDelivrPurgeUrl(url));
+    if (!response.ok) {
+      throw new Error(`Purge failed with status ${response.status}`);
+    }
+  }
+
+  async fetchBytes(url: string): Promise<ArrayBuffer | null> {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`CDN responded with status ${response.status}`);
+    }
+    return response.arrayBuffer();
+  }
+}
+
+// Compute the git blob SHA-1 of some bytes, as GitHub does for committed files
+export async function computeGitBlobSha(bytes: ArrayBuffer): Promise<string> {
+  const header = new TextEncoder().encode(`blob ${bytes.byteLength}\0`);
+  const data = new Uint8Array(header.length + bytes.byteLength);
+  data.set(header, 0);
+  data.set(new Uint8Array(bytes), header.length);
+
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(new Error('Propagation check cancelled'));
+  }, { once: true });
+});
+
+export class CdnPropagationService {
+  private client: CdnClient;
+
+  constructor(client: CdnClient = new JsDelivrCdnClient()) {
+    this.client = client;
+  }
+
+  public setClient(client: CdnClient) {
+    this.client = client;
+  }
+
+  // Purge each uploaded file from the CDN, then poll until the served bytes
+  // match the committed blob SHA. Resolves with the final status of every file.
+  public async purgeAndVerify(
+    owner: string,
+    repo: string,
+    files: { path: string; sha: string }[],
+    options: PropagationOptions = {}
+  ): Promise<FilePropagationStatus[]> {
+    const { intervalMs = 5000, maxAttempts = 24, signal, onStatus } = options;
+
+    const statuses: FilePropagationStatus[] = files.map(file => ({
+      path: file.path,
+      url: buildJsDelivrFileUrl(owner, repo, file.path),
+      state: 'pending',
+      attempts: 0,
+    }));
+
+    const update = (index: number, changes: Partial<FilePropagationStatus>) => {
+      statuses[index] = { ...statuses[index], ...changes };
+      onStatus?.([...statuses]);
+    };
+
+    await Promise.all(files.map(async (file, index) => {
+      update(index, { state: 'purging' });
+      try {
+        await this.client.purge(statuses[index].url);
+      } catch (error) {
+        // A failed purge only slows propagation down, keep polling
+        console.warn(`Failed to purge ${statuses[index].url}:`, error);
+      }
+
+      update(index, { state: 'waiting' });
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (signal?.aborted) return;
+
+        try {
+          const bytes = await this.client.fetchBytes(statuses[index].url);
+          if (bytes && await computeGitBlobSha(bytes) === file.sha) {
+            update(index, { state: 'live', attempts: attempt, error: undefined });
+            return;
+          }
+          update(index, { attempts: attempt, error: bytes ? 'CDN is serving an older version' : 'Not found on CDN yet' });
+        } catch (error) {
+          update(index, { attempts: attempt, error: error instanceof Error ? error.message : String(error) });
+        }
+
+        if (attempt < maxAttempts) {
+          try {
+            await wait(intervalMs, signal);
+          } catch {
+            return;
+          }
+        }
+      }
+
+      update(index, { state: 'failed' });
+    }));
+
+    return statuses;
+  }
+}
@@ -0,0 +1,45 @@
+import { FolderPath } from './types';
+
+const JSDELIVR_GH_BASE = 'https://cdn.jsdelivr.net/gh';
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+// A card folder referenced by a jsDelivr baseUrl
+export interface CdnCardLocation {
+  owner: string;
+  repo: string;
+  ref: string | null;
+  folder: string;
+}
+
+// Build the jsDelivr baseUrl for a card folder, optionally pinned to a ref
+export function buildJsDelivrBaseUrl(folderPath: FolderPath, ref?: string | null): string {
+  const repoRef = ref ? `${folderPath.repo}@${ref}` : folderPath.repo;
+  return `${JSDELIVR_GH_BASE}/${folderPath.username}/${repoRef}/og/${folderPath.folder}`;
+}
+
+// Parse a jsDelivr baseUrl back into its repository, ref and card folder
+export function parseJsDelivrBaseUrl(url: string): CdnCardLocation | null {
+  const match = url.trim().match(/^https?:\/\/cdn\.jsdelivr\.net\/gh\/([^/@]+)\/([^/@]+)(?:@([^/]+))?\/og\/([^/?#]+)\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, owner, repo, ref, folder] = match;
+  return { owner, repo, ref: ref || null, folder };
+}
+
+// Build the jsDelivr URL of a single file in a repository
+export function buildJsDelivrFileUrl(owner: string, repo: string, path: string, ref?: string | null): string {
+  const repoRef = ref ? `${repo}@${ref}` : repo;
+  return `${JSDELIVR_GH_BASE}/${owner}/${repoRef}/${path}`;
+}
+
+// jsDelivr purges a cached file when the same path is requested on purge.jsdelivr.net
+export function buildJsDelivrPurgeUrl(cdnUrl: string): string {
+  return cdnUrl.replace(/^https?:\/\/cdn\.jsdelivr\.net\//, 'https://purge.jsdelivr.net/');
+}
+
+// HTTP URL a browser can load for an og.baseUrl, mapping ipfs:// through a public gateway
+export function toHttpBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/^ipfs:\/\//, IPFS_GATEWAY).replace(/\/$/, '');
+}
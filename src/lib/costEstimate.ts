@@ -0,0 +1,90 @@
+import { formatEther } from 'viem';
+import { estimateL1Fee } from 'viem/op-stack';
+import { getAccount, getClient, getGasPrice } from 'wagmi/actions';
+import { config as wagmiConfig } from './rainbowkit';
+import { ENSService, TextRecordBatch } from './ensService';
+import { createPriceSource, FIAT_CURRENCY, PriceSource } from './priceSource';
+
+type WagmiConfig = typeof wagmiConfig;
+
+// What a batch of text records costs to write at the current gas price
+export interface CostEstimate {
+  gas: bigint;
+  fee: bigint; // Wei, including the L1 data fee on OP-stack chains
+  l1Fee: bigint; // Wei paid for posting the transactions to L1, zero on L1 chains
+  fiat: number | null; // Null on testnets or when no price is available
+  currency: string;
+}
+
+// A smaller payload is worth pointing out when it saves at least a storage slot's worth and a tenth of the gas
+const MIN_SAVING_GAS = BigInt(20000);
+
+export function isMeaningfulSaving(current: bigint, alternative: bigint): boolean {
+  const saving = current - alternative;
+  return saving >= MIN_SAVING_GAS && saving * BigInt(10) >= current;
+}
+
+export function formatCost(estimate: CostEstimate): string {
+  const eth = Number(formatEther(estimate.fee)).toPrecision(3);
+  const l1 = estimate.l1Fee > BigInt(0) ? `, incl. ${Number(formatEther(estimate.l1Fee)).toPrecision(3)} ETH L1 data fee` : '';
+  if (estimate.fiat === null) {
+    return `${eth} ETH${l1}`;
+  }
+  const fiat = estimate.fiat.toLocaleString(undefined, { style: 'currency', currency: estimate.currency });
+  return `${eth} ETH (~${fiat})${l1}`;
+}
+
+// Prices text record writes in ETH and fiat
+export class CostEstimator {
+  constructor(
+    private ensService: ENSService = new ENSService(),
+    private priceSource: PriceSource = createPriceSource(),
+    private config: WagmiConfig = wagmiConfig
+  ) {}
+
+  async estimate(batch: TextRecordBatch): Promise<CostEstimate> {
+    const gas = await this.ensService.estimateTextRecordsGas(batch);
+    // Offchain updates are only signed
+    if (gas === BigInt(0)) {
+      return { gas, fee: BigInt(0), l1Fee: BigInt(0), fiat: 0, currency: FIAT_CURRENCY };
+    }
+
+    const [gasPrice, l1Fee] = await Promise.all([
+      getGasPrice(this.config, { chainId: batch.chainId }),
+      this.estimateL1Fee(batch),
+    ]);
+    const fee = gas * gasPrice + l1Fee;
+    return { gas, fee, l1Fee, fiat: await this.toFiat(fee, batch.chainId), currency: FIAT_CURRENCY };
+  }
+
+  // OP-stack chains such as Base and Optimism also charge for posting the calldata to L1,
+  // which is often most of the cost of a text record write
+  private async estimateL1Fee(batch: TextRecordBatch): Promise<bigint> {
+    const chain = this.config.chains.find(c => c.id === batch.chainId);
+    if (!chain?.contracts || !('gasPriceOracle' in chain.contracts)) {
+      return BigInt(0);
+    }
+
+    const client = getClient(this.config, { chainId: batch.chainId });
+    const { address: account } = getAccount(this.config);
+    const fees = await Promise.all(this.ensService.getTransactionData(batch).map(data =>
+      estimateL1Fee(client, { account, chain, to: batch.resolver, data })
+    ));
+    return fees.reduce((total, fee) => total + fee, BigInt(0));
+  }
+
+  private async toFiat(fee: bigint, chainId: number): Promise<number | null> {
+    const chain = this.config.chains.find(c => c.id === chainId);
+    if (chain?.testnet) {
+      return null;
+    }
+
+    try {
+      const price = await this.priceSource.getEthPrice(FIAT_CURRENCY);
+      return Number(formatEther(fee)) * price;
+    } catch (error) {
+      console.error('Error getting ETH price:', error);
+      return null;
+    }
+  }
+}
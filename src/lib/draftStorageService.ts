@@ -0,0 +1,150 @@
+import { CardPullRequest, FolderPath, ImageFile } from './types';
+import { StorageProviderId } from './storageProvider';
+
+// Image slot as stored in IndexedDB. Blobs are stored directly instead of base64 data URLs.
+export interface StoredImage {
+  name: ImageFile['name'];
+  blob: Blob | null;
+  fileName: string | null;
+}
+
+// A saved wizard session
+export interface WizardDraft {
+  id: string;
+  name: string;
+  updatedAt: number;
+  activeStep: number;
+  folderPath: FolderPath | null;
+  pinnedRef?: string | null; // Commit SHA or tag the baseUrl is pinned to
+  storageProvider?: StorageProviderId;
+  storageBaseUrl?: string | null; // baseUrl published by a non-GitHub storage backend
+  pullRequest?: CardPullRequest | null; // Pull request the assets were proposed in
+  images: StoredImage[];
+}
+
+const DB_NAME = 'previewcard-yapp';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+const LAST_DRAFT_KEY = 'last_draft_id';
+
+export class DraftStorageService {
+  private static instance: DraftStorageService;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public static getInstance(): DraftStorageService {
+    if (!DraftStorageService.instance) {
+      DraftStorageService.instance = new DraftStorageService();
+    }
+    return DraftStorageService.instance;
+  }
+
+  public static createDraftId(): string {
+    return `draft-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+            db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DRAFTS_STORE, mode);
+      const request = action(transaction.objectStore(DRAFTS_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  // List all drafts, most recently updated first
+  public async listDrafts(): Promise<WizardDraft[]> {
+    const drafts = await this.runRequest<WizardDraft[]>('readonly', store => store.getAll());
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public async getDraft(id: string): Promise<WizardDraft | null> {
+    const draft = await this.runRequest<WizardDraft | undefined>('readonly', store => store.get(id));
+    return draft || null;
+  }
+
+  // The draft the user was last working on, if it still exists
+  public async getLastDraft(): Promise<WizardDraft | null> {
+    const id = localStorage.getItem(LAST_DRAFT_KEY);
+    return id ? this.getDraft(id) : null;
+  }
+
+  public async saveDraft(draft: WizardDraft): Promise<void> {
+    await this.runRequest('readwrite', store => store.put({ ...draft, updatedAt: Date.now() }));
+    localStorage.setItem(LAST_DRAFT_KEY, draft.id);
+  }
+
+  public async renameDraft(id: string, name: string): Promise<void> {
+    const draft = await this.getDraft(id);
+    if (!draft) {
+      throw new Error('Draft not found');
+    }
+    await this.saveDraft({ ...draft, name });
+  }
+
+  public async deleteDraft(id: string): Promise<void> {
+    await this.runRequest('readwrite', store => store.delete(id));
+    if (localStorage.getItem(LAST_DRAFT_KEY) === id) {
+      localStorage.removeItem(LAST_DRAFT_KEY);
+    }
+  }
+
+  // Forget the last draft so the resume prompt is not shown again
+  public clearLastDraft(): void {
+    localStorage.removeItem(LAST_DRAFT_KEY);
+  }
+
+  // Convert wizard image files to their stored form
+  public static toStoredImages(files: ImageFile[]): StoredImage[] {
+    return files.map(file => ({
+      name: file.name,
+      blob: file.file,
+      fileName: file.file?.name || null,
+    }));
+  }
+
+  // Rebuild wizard image files, including base64 previews, from stored images
+  public static async fromStoredImages(images: StoredImage[]): Promise<ImageFile[]> {
+    return Promise.all(images.map(async image => {
+      if (!image.blob) {
+        return { name: image.name, file: null, preview: null };
+      }
+
+      const file = new File([image.blob], image.fileName || `${image.name}.png`, { type: image.blob.type });
+      const preview = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(image.blob!);
+      });
+      return { name: image.name, file, preview };
+    }));
+  }
+}
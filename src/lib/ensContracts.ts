@@ -0,0 +1,56 @@
+import { Address, parseAbi } from 'viem';
+import { getEnsNetwork, localChain } from './ensNetworks';
+
+// ENS registry, deployed at the same address on mainnet and most testnets
+export const ENS_REGISTRY_ADDRESS: Address = '0x00000000000C2E074eC69A0bFb2997BA6C7d2e1e';
+
+export const ensRegistryAbi = parseAbi([
+  'function resolver(bytes32 node) view returns (address)',
+  'function owner(bytes32 node) view returns (address)',
+]);
+
+export const ensTextResolverAbi = parseAbi([
+  'function text(bytes32 node, string key) view returns (string)',
+  'function setText(bytes32 node, string key, string value)',
+]);
+
+// Public resolvers log every text record change. Older ones don't include the new value.
+export const ensTextChangedEventsAbi = parseAbi([
+  'event TextChanged(bytes32 indexed node, string indexed indexedKey, string key, string value)',
+  'event TextChanged(bytes32 indexed node, string indexed indexedKey, string key)',
+]);
+
+// Public resolvers batch record updates through multicall (IMulticallable)
+export const ensMulticallAbi = parseAbi([
+  'function multicall(bytes[] data) returns (bytes[] results)',
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+]);
+
+export const MULTICALLABLE_INTERFACE_ID = '0xac9650d8';
+
+// ENSIP-10 wildcard resolvers answer every record through resolve()
+export const ensExtendedResolverAbi = parseAbi([
+  'function resolve(bytes name, bytes data) view returns (bytes)',
+]);
+
+export const EXTENDED_RESOLVER_INTERFACE_ID = '0x9061b923';
+
+// EIP-5559: resolvers whose records live in an offchain database revert writes with this error
+export const offchainStorageErrorAbi = parseAbi([
+  'struct DomainData { string name; string version; uint64 chainId; address verifyingContract; }',
+  'struct MessageData { bytes data; address sender; uint256 expirationTimestamp; }',
+  'error StorageHandledByOffChainDatabase(DomainData sender, string url, MessageData data)',
+]);
+
+// Registry address for a chain; a local node uses the address it was deployed at
+export function getEnsRegistryAddress(chainId: number): Address {
+  if (localChain && chainId === localChain.id && import.meta.env.VITE_LOCAL_ENS_REGISTRY) {
+    return import.meta.env.VITE_LOCAL_ENS_REGISTRY as Address;
+  }
+  return ENS_REGISTRY_ADDRESS;
+}
+
+// Resolver holding the records of names on an L2, null on chains with an ENS registry
+export function getL2ResolverAddress(chainId: number): Address | null {
+  return getEnsNetwork(chainId)?.l2Resolver || null;
+}
@@ -0,0 +1,50 @@
+import { Address, Chain } from 'viem';
+import { base, foundry, holesky, mainnet, optimism, sepolia } from 'wagmi/chains';
+
+export type EnsNetworkId = 'mainnet' | 'sepolia' | 'holesky' | 'base' | 'optimism' | 'local';
+
+// A chain ENS records can be read from and written to
+export interface EnsNetwork {
+  id: EnsNetworkId;
+  label: string;
+  chain: Chain;
+  l2Resolver?: Address; // L2 names keep their records in this resolver on the L2 itself
+  nameSuffix?: string; // Names under this parent live on this network
+}
+
+// Optional local node (anvil/hardhat) with its own ENS deployment, for testing record writes
+const localRpcUrl = import.meta.env.VITE_LOCAL_RPC_URL;
+export const localChain: Chain | null = localRpcUrl
+  ? { ...foundry, rpcUrls: { default: { http: [localRpcUrl] } } }
+  : null;
+
+// Basenames L2Resolver
+const BASE_L2_RESOLVER: Address = '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD';
+const optimismL2Resolver = import.meta.env.VITE_OPTIMISM_L2_RESOLVER as Address | undefined;
+
+const AVAILABLE_NETWORKS: EnsNetwork[] = [
+  { id: 'mainnet', label: 'Ethereum', chain: mainnet },
+  { id: 'sepolia', label: 'Sepolia', chain: sepolia },
+  { id: 'holesky', label: 'Holesky', chain: holesky },
+  { id: 'base', label: 'Base', chain: base, l2Resolver: BASE_L2_RESOLVER, nameSuffix: '.base.eth' },
+  ...(optimismL2Resolver ? [{ id: 'optimism' as const, label: 'OP Mainnet', chain: optimism, l2Resolver: optimismL2Resolver }] : []),
+  ...(localChain ? [{ id: 'local' as const, label: 'Local', chain: localChain }] : []),
+];
+
+// Networks named in VITE_ENS_NETWORKS (comma separated), or every available one.
+// Mainnet is always kept, since primary names and lookups are read there.
+const enabledIds = import.meta.env.VITE_ENS_NETWORKS?.split(',').map(id => id.trim()).filter(Boolean);
+export const ENS_NETWORKS: EnsNetwork[] = AVAILABLE_NETWORKS.filter(network =>
+  network.id === 'mainnet' || network.id === 'local' || !enabledIds || enabledIds.includes(network.id)
+);
+
+export const MAINNET_NETWORK = ENS_NETWORKS[0];
+
+export function getEnsNetwork(chainId: number | undefined): EnsNetwork | undefined {
+  return ENS_NETWORKS.find(network => network.chain.id === chainId);
+}
+
+// Network a name's records live on: L2 names by their parent, anything else on the fallback
+export function getEnsNetworkForName(name: string, fallback: EnsNetwork = MAINNET_NETWORK): EnsNetwork {
+  return ENS_NETWORKS.find(network => network.nameSuffix && name.endsWith(network.nameSuffix)) || fallback;
+}
@@ -1,187 +1,392 @@
-import { ethers } from 'ethers';
+import { Address, decodeFunctionResult, encodeFunctionData, Hash, Hex, toHex, zeroAddress } from 'viem';
+import { namehash, normalize, packetToBytes } from 'viem/ens';
+import { mainnet } from 'wagmi/chains';
+import {
+  call,
+  estimateGas,
+  getAccount,
+  getEnsAddress,
+  getEnsName,
+  getEnsResolver,
+  getEnsText,
+  getBlock,
+  getPublicClient,
+  readContract,
+  sendTransaction,
+  switchChain,
+  waitForTransactionReceipt,
+  writeContract,
+} from 'wagmi/actions';
+import { config as wagmiConfig } from './rainbowkit';
+import {
+  ensExtendedResolverAbi,
+  ensMulticallAbi,
+  ensRegistryAbi,
+  ensTextChangedEventsAbi,
+  ensTextResolverAbi,
+  EXTENDED_RESOLVER_INTERFACE_ID,
+  getEnsRegistryAddress,
+  getL2ResolverAddress,
+  MULTICALLABLE_INTERFACE_ID,
+} from './ensContracts';
+import { OffchainWriteRequest, parseOffchainWriteError, submitOffchainWrite } from './offchainRecords';
+import { deepMerge } from './recordMerge';
 import { ENSRecord } from './types';
 
-// Add window.__walletProviders type declaration
-declare global {
-  interface Window {
-    __walletProviders: {
-      ethereum?: any;
-      updateProvider?: (provider: any) => void;
-    };
-  }
+type WagmiConfig = typeof wagmiConfig;
+
+// setText calls for several keys, sent as one multicall when the resolver supports it
+export interface TextRecordBatch {
+  resolver: Address;
+  chainId: number;
+  calls: Hex[]; // Encoded setText calls, one per key
+  useMulticall: boolean;
+  offchain: OffchainWriteRequest | null; // Set when the resolver stores records in an offchain database
 }
 
-export const ENS_RESOLVER_ABI = [
-  'function setText(bytes32 node, string key, string value) external',
-  'function text(bytes32 node, string key) external view returns (string)',
-];
+// One past value of a text record, from a TextChanged event
+export interface TextRecordVersion {
+  value: string | null; // Null when the resolver didn't log it and it couldn't be read at that block
+  blockNumber: bigint;
+  transactionHash: Hash;
+  timestamp: number | null; // Unix seconds
+}
 
+// Versions found in one block window of the history, scanned newest window first
+export interface TextRecordHistoryPage {
+  versions: TextRecordVersion[]; // Oldest first
+  fromBlock: bigint; // Oldest block searched; pass it as beforeBlock to load the window before it
+}
+
+// Public RPCs reject eth_getLogs over large ranges, so each window is read in chunks
+const HISTORY_CHUNK_BLOCKS = 10_000n;
+const HISTORY_PAGE_BLOCKS = 100_000n;
+
+// ENS reads and writes through the app's wagmi config, so they share the wallet connection
 export class ENSService {
-  private provider: ethers.BrowserProvider | null = null;
-  private signer: ethers.JsonRpcSigner | null = null;
-  
-  constructor(ethereumProvider?: any) {
+  constructor(private config: WagmiConfig = wagmiConfig) {}
+
+  // Chains without a universal resolver (e.g. a local node) are read through the registry directly
+  private hasUniversalResolver(chainId: number): boolean {
+    const chain = this.config.chains.find(c => c.id === chainId);
+    return !!chain?.contracts?.ensUniversalResolver;
+  }
+
+  async getENSNameForAddress(address: Address): Promise<string | null> {
     try {
-      if (ethereumProvider) {
-        // Use the provided ethereum provider
-        this.provider = new ethers.BrowserProvider(ethereumProvider);
-      } else if (typeof window !== 'undefined') {
-        // Try to get provider from our custom container first
-        if (window.__walletProviders?.ethereum) {
-          this.provider = new ethers.BrowserProvider(window.__walletProviders.ethereum);
-        } 
-        // As a fallback, try window.ethereum but with try/catch
-        else {
-          try {
-            const ethereum = window.ethereum;
-            if (ethereum) {
-              this.provider = new ethers.BrowserProvider(ethereum);
-              // Store for future reference
-              if (window.__walletProviders) {
-                window.__walletProviders.ethereum = ethereum;
-              }
-            } else {
-              console.warn('No ethereum provider available');
-            }
-          } catch (e) {
-            console.warn('Error accessing ethereum provider:', e);
-          }
-        }
-      } else {
-        console.warn('No ethereum provider available');
-      }
+      return await getEnsName(this.config, { address, chainId: mainnet.id });
     } catch (error) {
-      console.error('Error initializing provider:', error);
-    }
-  }
-  
-  // Method to update the provider if it becomes available later
-  updateProvider(ethereumProvider: any) {
-    if (ethereumProvider) {
-      try {
-        this.provider = new ethers.BrowserProvider(ethereumProvider);
-        // Reset signer since provider changed
-        this.signer = null;
-        return true;
-      } catch (error) {
-        console.error('Error updating provider:', error);
-        return false;
-      }
+      console.error('Error getting ENS name:', error);
+      return null;
     }
-    return false;
   }
-  
-  async connectSigner() {
-    if (!this.provider) {
-      console.error('No provider available');
-      return false;
-    }
-    
+
+  async getAddressForName(ensName: string): Promise<Address | null> {
     try {
-      this.signer = await this.provider.getSigner();
-      return true;
+      return await getEnsAddress(this.config, { name: normalize(ensName), chainId: mainnet.id });
     } catch (error) {
-      console.error('Error connecting to wallet:', error);
-      return false;
-    }
-  }
-  
-  async getENSNameForAddress(address: string): Promise<string | null> {
-    if (!this.provider) {
-      console.warn('No provider available');
+      console.error('Error resolving ENS address:', error);
       return null;
     }
-    
+  }
+
+  private async supportsInterface(resolver: Address, interfaceId: Hex, chainId: number): Promise<boolean> {
     try {
-      const ensName = await this.provider.lookupAddress(address);
-      return ensName;
+      return await readContract(this.config, {
+        address: resolver,
+        abi: ensMulticallAbi,
+        functionName: 'supportsInterface',
+        args: [interfaceId],
+        chainId,
+      });
     } catch (error) {
-      console.error('Error getting ENS name:', error);
-      return null;
+      // Resolvers without ERC-165 can't be asked and are treated as not supporting it
+      return false;
     }
   }
-  
-  async getTextRecord(ensName: string, key: string = 'me.yodl'): Promise<string | null> {
-    if (!this.provider) {
-      console.warn('No provider available');
-      return null;
+
+  // ENSIP-10: use the resolver of the closest ancestor when the name itself has none.
+  // An ancestor's resolver only answers for the name if it supports wildcard resolution.
+  private async findResolver(name: string, chainId: number): Promise<{ resolver: Address; wildcard: boolean } | null> {
+    const labels = name.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const resolver = await readContract(this.config, {
+        address: getEnsRegistryAddress(chainId),
+        abi: ensRegistryAbi,
+        functionName: 'resolver',
+        args: [namehash(labels.slice(i).join('.'))],
+        chainId,
+      });
+      if (resolver !== zeroAddress) {
+        const extended = await this.supportsInterface(resolver, EXTENDED_RESOLVER_INTERFACE_ID, chainId);
+        return i === 0 || extended ? { resolver, wildcard: extended } : null;
+      }
+    }
+    return null;
+  }
+
+  async getResolverAddress(ensName: string, chainId: number = mainnet.id): Promise<Address | null> {
+    const name = normalize(ensName);
+    const l2Resolver = getL2ResolverAddress(chainId);
+    if (l2Resolver) {
+      return l2Resolver;
+    }
+    if (this.hasUniversalResolver(chainId)) {
+      const resolver = await getEnsResolver(this.config, { name, chainId });
+      return resolver && resolver !== zeroAddress ? resolver : null;
     }
-    
+    return (await this.findResolver(name, chainId))?.resolver || null;
+  }
+
+  // Read a text record, null when it is not set. Throws when the lookup itself fails.
+  // Wildcard and offchain (CCIP-Read) resolvers are followed through resolve() and OffchainLookup.
+  async getTextRecord(ensName: string, key: string = 'me.yodl', chainId: number = mainnet.id): Promise<string | null> {
     try {
-      // Get node hash for the ENS name
-      const nodeHash = ethers.namehash(ensName);
-      
-      // Get resolver address for the ENS name
-      const resolver = await this.provider.getResolver(ensName);
-      
-      if (!resolver) {
-        console.error('No resolver found for ENS name:', ensName);
+      const name = normalize(ensName);
+      if (this.hasUniversalResolver(chainId)) {
+        // The universal resolver already handles ENSIP-10 and EIP-3668
+        return await getEnsText(this.config, { name, key, chainId });
+      }
+
+      const textCall = { abi: ensTextResolverAbi, functionName: 'text', args: [namehash(name), key] } as const;
+      const l2Resolver = getL2ResolverAddress(chainId);
+      if (l2Resolver) {
+        return await readContract(this.config, { address: l2Resolver, ...textCall, chainId }) || null;
+      }
+
+      const found = await this.findResolver(name, chainId);
+      if (!found) {
         return null;
       }
-      
-      // Create resolver contract instance
-      const resolverContract = new ethers.Contract(
-        resolver.address,
-        ENS_RESOLVER_ABI,
-        this.provider
-      );
-      
-      // Call text function to get the record
-      const textRecord = await resolverContract.text(nodeHash, key);
-      return textRecord;
+
+      let value: string;
+      if (found.wildcard) {
+        // viem answers OffchainLookup reverts by querying the gateway and calling back the resolver
+        const result = await readContract(this.config, {
+          address: found.resolver,
+          abi: ensExtendedResolverAbi,
+          functionName: 'resolve',
+          args: [toHex(packetToBytes(name)), encodeFunctionData(textCall)],
+          chainId,
+        });
+        value = decodeFunctionResult({ abi: ensTextResolverAbi, functionName: 'text', data: result });
+      } else {
+        value = await readContract(this.config, { address: found.resolver, ...textCall, chainId });
+      }
+      return value || null;
     } catch (error) {
       console.error('Error getting text record:', error);
+      throw error;
+    }
+  }
+
+  // Past values of a text record from the current resolver's TextChanged events, oldest first,
+  // for the block window ending before beforeBlock (the latest window when omitted).
+  // Values older resolvers didn't log are read at the block they were set in, which needs an archive node.
+  async getTextRecordHistory(
+    ensName: string,
+    key: string = 'me.yodl',
+    chainId: number = mainnet.id,
+    beforeBlock?: bigint
+  ): Promise<TextRecordHistoryPage> {
+    try {
+      const name = normalize(ensName);
+      const resolver = await this.getResolverAddress(name, chainId);
+      const client = getPublicClient(this.config, { chainId });
+      const toBlock = beforeBlock !== undefined ? beforeBlock - 1n : await client.getBlockNumber();
+      if (!resolver || toBlock < 0n) {
+        return { versions: [], fromBlock: 0n };
+      }
+      const fromBlock = toBlock >= HISTORY_PAGE_BLOCKS ? toBlock - HISTORY_PAGE_BLOCKS + 1n : 0n;
+
+      const node = namehash(name);
+      const [withValue, withoutValue] = ensTextChangedEventsAbi;
+      const filter = { address: resolver, args: { node, indexedKey: key }, strict: true } as const;
+      const logs: { value: string | null; blockNumber: bigint; logIndex: number; transactionHash: Hash }[] = [];
+      for (let start = fromBlock; start <= toBlock; start += HISTORY_CHUNK_BLOCKS) {
+        const end = start + HISTORY_CHUNK_BLOCKS - 1n < toBlock ? start + HISTORY_CHUNK_BLOCKS - 1n : toBlock;
+        const [valueLogs, keyLogs] = await Promise.all([
+          client.getLogs({ ...filter, event: withValue, fromBlock: start, toBlock: end }),
+          client.getLogs({ ...filter, event: withoutValue, fromBlock: start, toBlock: end }),
+        ]);
+        logs.push(
+          ...valueLogs.map(log => ({ ...log, value: log.args.value as string | null })),
+          ...keyLogs.map(log => ({ ...log, value: null })),
+        );
+      }
+      logs.sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+
+      const versions = await Promise.all(logs.map(async log => {
+        let value = log.value;
+        if (value === null) {
+          value = await readContract(this.config, {
+            address: resolver,
+            abi: ensTextResolverAbi,
+            functionName: 'text',
+            args: [node, key],
+            blockNumber: log.blockNumber,
+            chainId,
+          }).catch(() => null);
+        }
+        const block = await getBlock(this.config, { blockNumber: log.blockNumber, chainId }).catch(() => null);
+
+        return {
+          value,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          timestamp: block ? Number(block.timestamp) : null,
+        };
+      }));
+      return { versions, fromBlock };
+    } catch (error) {
+      console.error('Error getting text record history:', error);
+      throw error;
+    }
+  }
+
+  // Dry-run a write to learn whether the resolver defers it to an offchain database
+  private async detectOffchainWrite(resolver: Address, data: Hex, chainId: number): Promise<OffchainWriteRequest | null> {
+    const { address: account } = getAccount(this.config);
+    try {
+      await call(this.config, { account, to: resolver, data, chainId });
       return null;
+    } catch (error) {
+      return parseOffchainWriteError(error);
     }
   }
-  
-  async setTextRecord(ensName: string, key: string, value: string): Promise<boolean> {
-    if (!this.provider || !this.signer) {
-      console.error('No provider or signer available');
-      return false;
+
+  private encodeTextRecords(name: string, records: Record<string, string>): Hex[] {
+    const node = namehash(name);
+    const calls = Object.entries(records).map(([key, value]) => encodeFunctionData({
+      abi: ensTextResolverAbi,
+      functionName: 'setText',
+      args: [node, key, value],
+    }));
+    if (calls.length === 0) {
+      throw new Error('No records to set');
+    }
+    return calls;
+  }
+
+  // Encode setText for every key and check whether the resolver can take them in one multicall
+  async prepareTextRecords(ensName: string, records: Record<string, string>, chainId: number = mainnet.id): Promise<TextRecordBatch> {
+    const name = normalize(ensName);
+    const resolver = await this.getResolverAddress(name, chainId);
+    if (!resolver) {
+      throw new Error(`No resolver found for ${name}`);
+    }
+
+    const calls = this.encodeTextRecords(name, records);
+
+    const useMulticall = calls.length > 1 && await this.supportsInterface(resolver, MULTICALLABLE_INTERFACE_ID, chainId);
+    const offchain = await this.detectOffchainWrite(
+      resolver,
+      useMulticall ? encodeFunctionData({ abi: ensMulticallAbi, functionName: 'multicall', args: [calls] }) : calls[0],
+      chainId
+    );
+
+    return { resolver, chainId, calls, useMulticall, offchain };
+  }
+
+  // The same batch with other values for the same keys, reusing the resolver checks (e.g. to compare payload sizes)
+  withTextRecords(batch: TextRecordBatch, ensName: string, records: Record<string, string>): TextRecordBatch {
+    return { ...batch, calls: this.encodeTextRecords(normalize(ensName), records) };
+  }
+
+  // Gas for the whole batch, summed over the single calls when multicall is not available
+  async estimateTextRecordsGas(batch: TextRecordBatch): Promise<bigint> {
+    if (batch.offchain) {
+      // Offchain updates are only signed, not sent as transactions
+      return BigInt(0);
     }
-    
+
+    const { address: account } = getAccount(this.config);
+    const estimates = await Promise.all(this.getTransactionData(batch).map(data =>
+      estimateGas(this.config, { account, to: batch.resolver, data, chainId: batch.chainId })
+    ));
+    return estimates.reduce((total, gas) => total + gas, BigInt(0));
+  }
+
+  // Calldata of each transaction the batch is sent as
+  getTransactionData(batch: TextRecordBatch): Hex[] {
+    return batch.useMulticall
+      ? [encodeFunctionData({ abi: ensMulticallAbi, functionName: 'multicall', args: [batch.calls] })]
+      : batch.calls;
+  }
+
+  // Ask the wallet to switch to the record's chain, refusing to go on when it stays on another one
+  async switchToChain(chainId: number): Promise<void> {
+    if (getAccount(this.config).chainId === chainId) {
+      return;
+    }
+
+    const chainName = this.config.chains.find(c => c.id === chainId)?.name || `chain ${chainId}`;
     try {
-      // Get node hash for the ENS name
-      const nodeHash = ethers.namehash(ensName);
-      
-      // Get resolver address for the ENS name
-      const resolver = await this.provider.getResolver(ensName);
-      
-      if (!resolver) {
-        console.error('No resolver found for ENS name:', ensName);
-        return false;
-      }
-      
-      // Create resolver contract instance with signer
-      const resolverContract = new ethers.Contract(
-        resolver.address,
-        ENS_RESOLVER_ABI,
-        this.signer
-      );
-      
-      // Call setText function to update the record
-      const tx = await resolverContract.setText(nodeHash, key, value);
-      await tx.wait();
-      
-      return true;
+      await switchChain(this.config, { chainId });
     } catch (error) {
-      console.error('Error setting text record:', error);
-      return false;
+      console.error('Error switching chain:', error);
+    }
+    if (getAccount(this.config).chainId !== chainId) {
+      throw new Error(`The wallet is on the wrong network. Switch it to ${chainName} to write this record.`);
     }
   }
-  
-  async updateOgCardRecord(ensName: string, record: ENSRecord): Promise<boolean> {
-    if (!this.provider) {
-      console.warn('No provider available');
+
+  // Send the batch from the connected wallet, returning one hash per transaction.
+  // Offchain batches are signed and posted to the gateway instead, returning no hashes.
+  async sendTextRecords(batch: TextRecordBatch): Promise<Hash[]> {
+    await this.switchToChain(batch.chainId);
+
+    if (batch.offchain) {
+      await submitOffchainWrite(batch.offchain, this.config);
+      return [];
+    }
+
+    const { address: account } = getAccount(this.config);
+
+    if (batch.useMulticall) {
+      const hash = await writeContract(this.config, {
+        address: batch.resolver,
+        abi: ensMulticallAbi,
+        functionName: 'multicall',
+        args: [batch.calls],
+        account,
+        chain: this.config.chains.find(c => c.id === batch.chainId),
+      });
+      return [hash];
+    }
+
+    // Sent one after another so the wallet assigns nonces in order
+    const hashes: Hash[] = [];
+    for (const data of batch.calls) {
+      hashes.push(await sendTransaction(this.config, { account, to: batch.resolver, data, chainId: batch.chainId }));
+    }
+    return hashes;
+  }
+
+  // Set several text records and wait until every transaction is mined
+  async setTextRecords(ensName: string, records: Record<string, string>, chainId: number = mainnet.id): Promise<boolean> {
+    try {
+      const batch = await this.prepareTextRecords(ensName, records, chainId);
+      const hashes = await this.sendTextRecords(batch);
+      const receipts = await Promise.all(hashes.map(hash => waitForTransactionReceipt(this.config, { hash, chainId })));
+      return receipts.every(receipt => receipt.status === 'success');
+    } catch (error) {
+      console.error('Error setting text records:', error);
       return false;
     }
-    
+  }
+
+  // Send setText from the connected wallet and wait for it to be mined
+  async setTextRecord(ensName: string, key: string, value: string, chainId: number = mainnet.id): Promise<boolean> {
+    return this.setTextRecords(ensName, { [key]: value }, chainId);
+  }
+
+  async updateOgCardRecord(ensName: string, record: ENSRecord): Promise<boolean> {
     try {
       // Get existing record if any
       const existingRecordStr = await this.getTextRecord(ensName, 'me.yodl');
       let existingRecord: ENSRecord = {};
-      
+
       if (existingRecordStr) {
         try {
           existingRecord = JSON.parse(existingRecordStr);
@@ -189,24 +394,15 @@ export class ENSService {
           console.warn('Invalid existing record format:', existingRecordStr);
         }
       }
-      
-      // Merge existing record with new og card data
-      const updatedRecord = {
-        ...existingRecord,
-        og: record.og
-      };
-      
+
+      // Merge the new og card data into the existing record, keeping any other og fields
+      const updatedRecord = deepMerge(existingRecord, { og: record.og });
+
       // Update the ENS record
-      const success = await this.setTextRecord(
-        ensName,
-        'me.yodl',
-        JSON.stringify(updatedRecord)
-      );
-      
-      return success;
+      return await this.setTextRecord(ensName, 'me.yodl', JSON.stringify(updatedRecord));
     } catch (error) {
       console.error('Error updating OG card record:', error);
       return false;
     }
   }
-} 
\ No newline at end of file
+}
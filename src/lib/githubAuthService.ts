@@ -1,4 +1,5 @@
 import { Octokit } from 'octokit';
+import { createTokenStore, migrateLegacyToken, setTokenPersistence, StoredToken, TokenPersistence, TokenStore } from './tokenStorage';
 
 export interface GitHubUser {
   login: string;
@@ -7,30 +8,126 @@ export interface GitHubUser {
   html_url: string;
 }
 
+// A saved GitHub identity that can be switched to without entering its token again
+export interface GitHubAccount {
+  login: string;
+  avatarUrl?: string;
+  expiresAt: number | null;
+}
+
+// A pending device flow sign-in: the user enters userCode at verificationUri
+export interface DeviceAuthorization {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number; // Epoch milliseconds
+  interval: number; // Seconds to wait between polls
+}
+
+interface DeviceTokenResponse {
+  access_token?: string;
+  expires_in?: number; // Only for GitHub Apps with expiring user tokens
+  error?: string;
+  error_description?: string;
+  interval?: number;
+}
+
+// Waits for ms, or rejects as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(new DOMException('Sign-in cancelled', 'AbortError'));
+  }, { once: true });
+});
+
 export class GitHubAuthService {
   private static instance: GitHubAuthService;
   private token: string | null = null;
   private octokit: Octokit | null = null;
   private user: GitHubUser | null = null;
+  private tokenExpiresAt: number | null = null;
+  private tokenScopes: string[] | null = null;
+  private accounts: StoredToken[] = []; // Saved identities, including the active one
+  private store: TokenStore = createTokenStore();
+  private ready: Promise<void>;
 
-  // GitHub OAuth App credentials are no longer needed for PAT auth
-  // private clientId = 'Ov23lirpINVUj2qYzgtp';
-  // private get redirectUri(): string { ... }
+  // OAuth client used for the device flow. With a GitHub App client id, the token can only
+  // reach the repositories the app is installed on, so installing it on the card repo alone limits it to that repo.
+  private clientId = import.meta.env.VITE_GITHUB_CLIENT_ID || null;
+  // github.com doesn't allow browser requests to its OAuth endpoints, so they go through a relay.
+  // Only the dev server has one built in; deployed builds need VITE_GITHUB_OAUTH_URL.
+  private oauthBaseUrl = import.meta.env.VITE_GITHUB_OAUTH_URL || (import.meta.env.DEV ? '/__github-oauth' : null);
 
   constructor() {
-    // Check if there's a stored token
-    this.token = localStorage.getItem('github_token');
-    if (this.token) {
-      this.initOctokit();
-      // Fetch user info on initial load if token exists
-      this.fetchUserInfo().catch(err => {
-        console.error('Failed to fetch user info on load:', err);
-        // If token is invalid on load, sign out
-        this.signOut(); 
-      });
+    this.ready = this.restoreToken();
+  }
+
+  // Load the saved accounts and sign in with the one last in use
+  private async restoreToken(): Promise<void> {
+    try {
+      await migrateLegacyToken(this.store);
+      const stored = await this.store.load();
+      if (!stored) return;
+
+      this.accounts = stored.tokens.filter(account => !account.expiresAt || account.expiresAt > Date.now());
+      // Tokens saved before accounts were tracked have no login yet
+      const active = this.accounts.find(account => account.login === stored.activeLogin)
+        || (stored.activeLogin === null ? this.accounts.find(account => !account.login) : undefined);
+      if (active) {
+        await this.activateAccount(active);
+      }
+      await this.persistAccounts();
+    } catch (err) {
+      console.error('Failed to restore GitHub sign-in:', err);
+      // If token is invalid on load, sign out
+      this.signOut();
+    }
+  }
+
+  // Sign in with a saved account, dropping it if its token no longer works
+  private async activateAccount(account: StoredToken): Promise<GitHubUser> {
+    this.token = account.token;
+    this.tokenExpiresAt = account.expiresAt;
+    this.initOctokit();
+    try {
+      const user = await this.fetchUserInfo();
+      this.saveAccount(user);
+      return user;
+    } catch (error) {
+      this.accounts = this.accounts.filter(saved => saved !== account);
+      this.resetSession();
+      throw error;
     }
   }
 
+  // Add or refresh the current token in the saved accounts
+  private saveAccount(user: GitHubUser) {
+    const account: StoredToken = {
+      token: this.token!,
+      expiresAt: this.tokenExpiresAt,
+      login: user.login,
+      avatarUrl: user.avatar_url,
+    };
+    this.accounts = [
+      ...this.accounts.filter(saved => saved.login !== user.login && saved.token !== account.token),
+      account,
+    ];
+  }
+
+  private async persistAccounts(): Promise<void> {
+    if (this.accounts.length === 0) {
+      await this.store.clear();
+      return;
+    }
+    await this.store.save({ activeLogin: this.user?.login ?? null, tokens: this.accounts });
+  }
+
+  // Resolves once the stored token has been loaded and checked
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
   public static getInstance(): GitHubAuthService {
     if (!GitHubAuthService.instance) {
       GitHubAuthService.instance = new GitHubAuthService();
@@ -50,6 +147,11 @@ export class GitHubAuthService {
     return !!this.token && !!this.user;
   }
 
+  // The device flow needs a client id and a relay for GitHub's OAuth endpoints
+  public isDeviceFlowAvailable(): boolean {
+    return !!this.clientId && !!this.oauthBaseUrl;
+  }
+
   public getOctokit(): Octokit | null {
     return this.octokit;
   }
@@ -62,29 +164,154 @@ export class GitHubAuthService {
     return this.token;
   }
 
+  // When the token stops working, or null if it doesn't expire or GitHub didn't say
+  public getTokenExpiry(): number | null {
+    return this.tokenExpiresAt;
+  }
+
+  // OAuth scopes of a classic or OAuth token, or null for fine-grained tokens, which have none
+  public getTokenScopes(): string[] | null {
+    return this.tokenScopes;
+  }
+
+  public getAccounts(): GitHubAccount[] {
+    return this.accounts
+      .filter(account => account.login)
+      .map(account => ({ login: account.login!, avatarUrl: account.avatarUrl, expiresAt: account.expiresAt }));
+  }
+
+  // Make another saved account the active one
+  public async switchAccount(login: string): Promise<GitHubUser> {
+    const account = this.accounts.find(saved => saved.login === login);
+    if (!account) {
+      throw new Error(`No saved GitHub account ${login}.`);
+    }
+
+    try {
+      return await this.activateAccount(account);
+    } catch (error) {
+      console.error('Error switching GitHub account:', error);
+      throw new Error(`The saved token for ${login} no longer works. Connect that account again.`);
+    } finally {
+      await this.persistAccounts();
+    }
+  }
+
+  public getPersistence(): TokenPersistence {
+    return this.store.persistence;
+  }
+
+  // Switch where the token is kept, moving the current one over
+  public async setPersistence(persistence: TokenPersistence): Promise<void> {
+    if (persistence === this.store.persistence) return;
+
+    await this.store.clear();
+    setTokenPersistence(persistence);
+    this.store = createTokenStore(persistence);
+    await this.persistAccounts();
+  }
+
   // Method to set and validate a Personal Access Token
-  public async setToken(newToken: string): Promise<GitHubUser> {
+  public async setToken(newToken: string, expiresAt: number | null = null): Promise<GitHubUser> {
     if (!newToken || typeof newToken !== 'string' || newToken.trim().length === 0) {
       throw new Error('Invalid token provided.');
     }
     
+    // Adding another account keeps the current one signed in if the new token doesn't work
+    const previous = { token: this.token, tokenExpiresAt: this.tokenExpiresAt, tokenScopes: this.tokenScopes, user: this.user };
     this.token = newToken.trim();
-    localStorage.setItem('github_token', this.token);
+    this.tokenExpiresAt = expiresAt;
     this.initOctokit();
     
-    // Validate the token by fetching user info
+    // Validate the token by fetching user info, and only keep it once it works
     try {
       const user = await this.fetchUserInfo();
+      this.saveAccount(user);
+      await this.persistAccounts();
       console.log('Token validated successfully for user:', user.login);
       return user;
     } catch (error) {
-      // If validation fails, clear the invalid token
-      this.signOut();
+      // If validation fails, drop the invalid token and go back to the previous account, if any
+      this.resetSession();
+      if (previous.token && previous.user) {
+        this.token = previous.token;
+        this.tokenExpiresAt = previous.tokenExpiresAt;
+        this.tokenScopes = previous.tokenScopes;
+        this.user = previous.user;
+        this.initOctokit();
+      }
       console.error('Token validation failed:', error);
       throw new Error('Invalid token or insufficient scope. Please ensure the token has \'repo\' scope.');
     }
   }
 
+  private async postOAuth<T>(path: string, params: Record<string, string>): Promise<T> {
+    if (!this.clientId || !this.oauthBaseUrl) {
+      throw new Error('GitHub sign-in is not configured. Set VITE_GITHUB_CLIENT_ID and VITE_GITHUB_OAUTH_URL.');
+    }
+    const response = await fetch(`${this.oauthBaseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ client_id: this.clientId, ...params }),
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub sign-in request failed: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  // Start the OAuth device flow. OAuth App tokens can't be limited to one repository, so the
+  // narrowest scope is public_repo, with repo needed only when the card repository is private.
+  public async startDeviceFlow(scope: 'public_repo' | 'repo' = 'public_repo'): Promise<DeviceAuthorization> {
+    const data = await this.postOAuth<{
+      device_code: string;
+      user_code: string;
+      verification_uri: string;
+      expires_in: number;
+      interval: number;
+    }>('/login/device/code', { scope });
+
+    return {
+      deviceCode: data.device_code,
+      userCode: data.user_code,
+      verificationUri: data.verification_uri,
+      expiresAt: Date.now() + data.expires_in * 1000,
+      interval: data.interval,
+    };
+  }
+
+  // Poll until the user approves the code, then store the token like a pasted one
+  public async completeDeviceFlow(authorization: DeviceAuthorization, signal?: AbortSignal): Promise<GitHubUser> {
+    let interval = authorization.interval;
+
+    while (Date.now() < authorization.expiresAt) {
+      await sleep(interval * 1000, signal);
+      const data = await this.postOAuth<DeviceTokenResponse>('/login/oauth/access_token', {
+        device_code: authorization.deviceCode,
+        grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      });
+
+      if (data.access_token) {
+        return this.setToken(data.access_token, data.expires_in ? Date.now() + data.expires_in * 1000 : null);
+      }
+      switch (data.error) {
+        case 'authorization_pending':
+          break;
+        case 'slow_down':
+          // GitHub asks for a longer interval when polled too often
+          interval = data.interval || interval + 5;
+          break;
+        case 'access_denied':
+          throw new Error('The sign-in request was denied on GitHub.');
+        case 'expired_token':
+          throw new Error('The code expired. Start the sign-in again.');
+        default:
+          throw new Error(data.error_description || data.error || 'GitHub sign-in failed.');
+      }
+    }
+    throw new Error('The code expired. Start the sign-in again.');
+  }
+
   // Fetch user info (kept public for validation and component use)
   public async fetchUserInfo(): Promise<GitHubUser> {
     if (!this.octokit) {
@@ -92,7 +319,17 @@ export class GitHubAuthService {
     }
 
     try {
-      const { data } = await this.octokit.rest.users.getAuthenticated();
+      const { data, headers } = await this.octokit.rest.users.getAuthenticated();
+      // Fine-grained and expiring classic tokens report their expiry, e.g. "2026-01-31 12:00:00 UTC"
+      const expiration = headers['github-authentication-token-expiration'];
+      if (typeof expiration === 'string') {
+        const expiresAt = Date.parse(expiration.replace(' ', 'T').replace(' UTC', 'Z'));
+        this.tokenExpiresAt = Number.isNaN(expiresAt) ? this.tokenExpiresAt : expiresAt;
+      }
+      const scopes = headers['x-oauth-scopes'];
+      this.tokenScopes = typeof scopes === 'string'
+        ? scopes.split(',').map(scope => scope.trim()).filter(Boolean)
+        : null;
       this.user = {
         login: data.login,
         avatar_url: data.avatar_url,
@@ -108,14 +345,20 @@ export class GitHubAuthService {
     }
   }
 
-  public signOut(): void {
+  private resetSession(): void {
     this.token = null;
     this.octokit = null;
     this.user = null;
-    localStorage.removeItem('github_token');
+    this.tokenExpiresAt = null;
+    this.tokenScopes = null;
+  }
+
+  // Sign out of the active account and forget its token; other saved accounts are kept
+  public signOut(): void {
+    this.accounts = this.accounts.filter(account => account.token !== this.token);
+    this.resetSession();
+    this.persistAccounts().catch(err => console.error('Failed to clear the stored GitHub token:', err));
     // Optionally notify listeners if using an event system
     console.log('User signed out.');
   }
-  
-  // Removed OAuth specific methods: signIn(), handleCallback()
 } 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { Octokit } from 'octokit';
-import { FolderPath, ImageFile } from './types';
+import { CardPullRequest, FolderPath, ImageFile } from './types';
 import { GitHubAuthService } from './githubAuthService';
 import { GitHubRateLimitService } from './gitHubRateLimitService';
+import { buildJsDelivrBaseUrl } from './cdnUrl';
 
 // Interface for repository data
 export interface GitHubRepository {
@@ -12,6 +13,77 @@ export interface GitHubRepository {
   description: string | null;
   default_branch: string;
   visibility: string;
+  canPush?: boolean; // The account's push access, before any token restrictions
+}
+
+// An account that can own the card repository: the signed-in user or one of their organizations
+export interface GitHubOwner {
+  login: string;
+  type: 'User' | 'Organization';
+  avatar_url: string;
+}
+
+// One page of a repository listing
+export interface RepositoryPage {
+  repositories: GitHubRepository[];
+  hasMore: boolean;
+}
+
+export const REPOSITORY_PAGE_SIZE = 30;
+
+// Fields shared by the repository objects of the list, search and get endpoints
+interface RepositoryResponse {
+  id: number;
+  name: string;
+  full_name: string;
+  html_url: string;
+  description: string | null;
+  default_branch?: string;
+  visibility?: string;
+  private: boolean;
+  permissions?: { push?: boolean };
+}
+
+const toRepository = (repo: RepositoryResponse): GitHubRepository => ({
+  id: repo.id,
+  name: repo.name,
+  full_name: repo.full_name,
+  html_url: repo.html_url,
+  description: repo.description || null,
+  default_branch: repo.default_branch || 'main',
+  visibility: repo.visibility || (repo.private ? 'private' : 'public'),
+  canPush: repo.permissions?.push
+});
+
+// A file to include in a multi-file commit
+export interface CommitFile {
+  path: string;
+  content: string; // Base64 encoded
+}
+
+// A published card folder under og/ in an asset repository
+export interface CardFolder {
+  name: string;
+  path: string;
+  sha: string;
+  thumbnailUrl: string;
+}
+
+// What the signed-in token can do, checked before any upload
+export interface RepositoryPermissions {
+  read: boolean;
+  write: boolean;
+  canCreateRepos: boolean | null; // Null when the token doesn't report it (fine-grained tokens)
+  scopes: string[] | null; // Classic token scopes, null for fine-grained tokens
+}
+
+// Result of a multi-file commit made through the Git Data API
+export interface CommitResult {
+  branch: string;
+  commitSha: string;
+  treeSha: string;
+  files: { path: string; sha: string }[];
+  deletedPaths: string[];
 }
 
 export class GitHubService {
@@ -68,15 +140,7 @@ export class GitHubService {
       
       await this.rateLimitService.updateRateLimits(this.octokit);
       
-      return data.map(repo => ({
-        id: repo.id,
-        name: repo.name,
-        full_name: repo.full_name,
-        html_url: repo.html_url,
-        description: repo.description || null,
-        default_branch: repo.default_branch,
-        visibility: repo.visibility
-      }));
+      return data.map(toRepository);
     } catch (error) {
       console.error('Error fetching repositories:', error);
       
@@ -113,6 +177,72 @@ export class GitHubService {
     ];
   }
 
+  // The signed-in user followed by the organizations they belong to
+  async listOwners(): Promise<GitHubOwner[]> {
+    const user = this.authService.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+    const self: GitHubOwner = { login: user.login, type: 'User', avatar_url: user.avatar_url };
+
+    this.octokit = this.authService.getOctokit();
+    if (this.isUsingSimulatedToken() || !this.octokit) {
+      return [self];
+    }
+
+    try {
+      const orgs = await this.octokit.paginate(this.octokit.rest.orgs.listForAuthenticatedUser, { per_page: 100 });
+      return [self, ...orgs.map(org => ({ login: org.login, type: 'Organization' as const, avatar_url: org.avatar_url }))];
+    } catch (error) {
+      // Tokens that can't list memberships can still use the user's own repositories
+      console.error('Error listing organizations:', error);
+      return [self];
+    }
+  }
+
+  // A page of the owner's repositories, most recently updated first, or of those whose name matches search
+  async listRepositories(owner: string, options: { page?: number; search?: string } = {}): Promise<RepositoryPage> {
+    const page = options.page ?? 1;
+    const search = options.search?.trim() ?? '';
+
+    if (this.isUsingSimulatedToken()) {
+      const repositories = this.getMockRepositories().filter(repo => repo.name.includes(search));
+      return { repositories: page === 1 ? repositories : [], hasMore: false };
+    }
+
+    this.octokit = this.authService.getOctokit();
+    if (!this.octokit) {
+      throw new Error('Not authenticated');
+    }
+
+    const isUser = owner === this.authService.getUser()?.login;
+    try {
+      let repositories: GitHubRepository[];
+      let hasMore: boolean;
+      if (search) {
+        const { data } = await this.octokit.rest.search.repos({
+          q: `${search} in:name ${isUser ? 'user' : 'org'}:${owner} fork:true`,
+          per_page: REPOSITORY_PAGE_SIZE,
+          page,
+        });
+        repositories = data.items.map(toRepository);
+        hasMore = page * REPOSITORY_PAGE_SIZE < data.total_count;
+      } else {
+        const { data } = isUser
+          ? await this.octokit.rest.repos.listForAuthenticatedUser({ affiliation: 'owner', sort: 'updated', per_page: REPOSITORY_PAGE_SIZE, page })
+          : await this.octokit.rest.repos.listForOrg({ org: owner, sort: 'updated', per_page: REPOSITORY_PAGE_SIZE, page });
+        repositories = data.map(toRepository);
+        hasMore = data.length === REPOSITORY_PAGE_SIZE;
+      }
+
+      this.rateLimitService.updateRateLimits(this.octokit).catch(console.error);
+      return { repositories, hasMore };
+    } catch (error) {
+      console.error(`Error listing repositories of ${owner}:`, error);
+      throw error;
+    }
+  }
+
   async uploadFile(
     params: {
       owner: string;
@@ -176,9 +306,203 @@ export class GitHubService {
     }
   }
 
+  // Commits several files to a branch as a single commit using the Git Data API
+  // (blobs -> tree -> commit -> ref update). Either every file lands or none does.
+  // Folders listed in deleteFolders are removed in the same commit.
+  // If the branch moved between reading the ref and updating it, the commit is
+  // rebuilt on top of the new head and retried.
+  async commitFiles(
+    params: {
+      owner: string;
+      repo: string;
+      files: CommitFile[];
+      deleteFolders?: string[];
+      message: string;
+      branch?: string;
+      maxAttempts?: number;
+    }
+  ): Promise<CommitResult> {
+    this.octokit = this.authService.getOctokit();
+    
+    if (!this.octokit) {
+      throw new Error('GitHub authentication required');
+    }
+
+    const { owner, repo, files, message } = params;
+    const deleteFolders = params.deleteFolders ?? [];
+    const maxAttempts = params.maxAttempts ?? 3;
+
+    if (files.length === 0 && deleteFolders.length === 0) {
+      throw new Error('No files to commit');
+    }
+
+    // Resolve the target branch if none was given
+    const { data: repoData } = await this.octokit.rest.repos.get({ owner, repo });
+    const branch = params.branch || repoData.default_branch;
+
+    // The Git data API doesn't work on an empty repository, so its first commit goes through the contents API
+    let pendingFiles = files;
+    try {
+      await this.octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 409 && files.length > 0) {
+        const [first, ...rest] = files;
+        const { data: initial } = await this.octokit.rest.repos.createOrUpdateFileContents({
+          owner,
+          repo,
+          path: first.path,
+          message,
+          content: first.content,
+          branch,
+        });
+        if (rest.length === 0 && deleteFolders.length === 0) {
+          return {
+            branch,
+            commitSha: initial.commit.sha!,
+            treeSha: initial.commit.tree!.sha!,
+            files: [{ path: first.path, sha: initial.content!.sha! }],
+            deletedPaths: [],
+          };
+        }
+        pendingFiles = rest;
+      } else if (status === 404 && branch !== repoData.default_branch) {
+        // A new branch starts from the default branch
+        const { data: baseRef } = await this.octokit.rest.git.getRef({ owner, repo, ref: `heads/${repoData.default_branch}` });
+        await this.octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: baseRef.object.sha });
+      } else {
+        throw error;
+      }
+    }
+
+    // Blobs are content-addressed, so they can be created once and reused across retries
+    let blobs: { path: string; sha: string }[];
+    try {
+      blobs = await Promise.all(pendingFiles.map(async file => {
+        const { data } = await this.octokit!.rest.git.createBlob({
+          owner,
+          repo,
+          content: file.content,
+          encoding: 'base64',
+        });
+        return { path: file.path, sha: data.sha };
+      }));
+    } catch (error) {
+      // The first write: a token without write access fails here rather than deep in the commit
+      const status = (error as { status?: number }).status;
+      if (status === 403 || status === 404) {
+        throw new Error(`This GitHub token can't write to ${owner}/${repo}. It needs Contents: Read and write on the repository, or the repo scope.`);
+      }
+      throw error;
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Read the current head of the branch
+      const { data: ref } = await this.octokit.rest.git.getRef({
+        owner,
+        repo,
+        ref: `heads/${branch}`,
+      });
+      const parentSha = ref.object.sha;
+
+      const { data: parentCommit } = await this.octokit.rest.git.getCommit({
+        owner,
+        repo,
+        commit_sha: parentSha,
+      });
+
+      // Deleting a folder means removing every file below it from the current head
+      let deletedPaths: string[] = [];
+      if (deleteFolders.length > 0) {
+        const { data: headTree } = await this.octokit.rest.git.getTree({
+          owner,
+          repo,
+          tree_sha: parentCommit.tree.sha,
+          recursive: 'true',
+        });
+        if (headTree.truncated) {
+          throw new Error('Repository tree is too large to delete folders safely');
+        }
+        deletedPaths = headTree.tree
+          .filter(item => item.type === 'blob' && deleteFolders.some(folder => item.path?.startsWith(`${folder}/`)))
+          .map(item => item.path!);
+        if (deletedPaths.length === 0 && files.length === 0) {
+          throw new Error('None of the folders to delete exist on the branch');
+        }
+      }
+
+      const { data: tree } = await this.octokit.rest.git.createTree({
+        owner,
+        repo,
+        base_tree: parentCommit.tree.sha,
+        tree: [
+          ...blobs.map(blob => ({
+            path: blob.path,
+            mode: '100644' as const,
+            type: 'blob' as const,
+            sha: blob.sha,
+          })),
+          // A null sha removes the file from the base tree
+          ...deletedPaths.map(path => ({
+            path,
+            mode: '100644' as const,
+            type: 'blob' as const,
+            sha: null,
+          })),
+        ],
+      });
+
+      const { data: commit } = await this.octokit.rest.git.createCommit({
+        owner,
+        repo,
+        message,
+        tree: tree.sha,
+        parents: [parentSha],
+      });
+
+      try {
+        // Non-forced update: GitHub rejects it if the branch is no longer at parentSha
+        await this.octokit.rest.git.updateRef({
+          owner,
+          repo,
+          ref: `heads/${branch}`,
+          sha: commit.sha,
+          force: false,
+        });
+
+        this.rateLimitService.updateRateLimits(this.octokit).catch(console.error);
+
+        return {
+          branch,
+          commitSha: commit.sha,
+          treeSha: tree.sha,
+          files: blobs,
+          deletedPaths,
+        };
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        const isRefConflict = status === 409 || status === 422;
+        if (!isRefConflict || attempt === maxAttempts) {
+          console.error('Error updating branch ref:', error);
+          throw new Error(
+            isRefConflict
+              ? `Branch '${branch}' kept changing while committing. Please try again.`
+              : `Failed to commit files: ${error instanceof Error ? error.message : error}`
+          );
+        }
+        console.warn(`Branch '${branch}' moved during commit, retrying (attempt ${attempt + 1}/${maxAttempts})`);
+      }
+    }
+
+    // Unreachable: the loop either returns or throws
+    throw new Error('Failed to commit files');
+  }
+
+  // Commits the card images to og/<folder>, on the default branch unless options.branch is given
   async uploadOgCardAssets(
     folderPath: FolderPath,
-    files: ImageFile[]
+    files: ImageFile[],
+    options: { branch?: string } = {}
   ) {
     // Ensure we have the latest octokit instance
     this.octokit = this.authService.getOctokit();
@@ -186,11 +510,17 @@ export class GitHubService {
     if (!this.octokit) {
       throw new Error('GitHub authentication required');
     }
+
+    const filesToUpload = files.filter(f => f.preview);
+    if (filesToUpload.length === 0) {
+      // Nothing to commit, so nothing changes in the repository
+      return { success: true, baseUrl: buildJsDelivrBaseUrl(folderPath), pinnedBaseUrl: null, commitSha: null, results: [] };
+    }
     
     // Check if we have enough rate limit remaining for all files
     try {
-      // We'll need approximately 2 API calls per file (getContent + createOrUpdate)
-      const requiredCalls = files.filter(f => f.preview).length * 2;
+      // One blob per file plus repo, ref, commit, tree, new commit and ref update
+      const requiredCalls = filesToUpload.length + 6;
       this.rateLimitService.checkRateLimit('core', requiredCalls);
     } catch (error: any) {
       if (error.message.includes('rate limit exceeded')) {
@@ -198,51 +528,179 @@ export class GitHubService {
       }
     }
 
-    const results = [];
     const baseFolder = `og/${folderPath.folder}`;
     const repoFullName = `${folderPath.username}/${folderPath.repo}`;
     console.log(`Starting upload to repository: ${repoFullName}, base folder: ${baseFolder}`); // Log repo and base folder
 
-    for (const file of files) {
-      if (!file.preview) continue;
-
-      try {
-        // Extract base64 content from data URL
-        const base64Content = file.preview.split(',')[1];
-        const targetPath = `${baseFolder}/${file.name}.png`; // Log this path
-        console.log(`Attempting to upload ${file.name} to path: ${targetPath}`);
-        
-        const result = await this.uploadFile({
-          owner: folderPath.username,
-          repo: folderPath.repo,
-          path: targetPath,
-          content: base64Content,
-          message: `Upload ${file.name}.png for OG card preview`,
-        });
-        
-        console.log(`Successfully uploaded ${file.name} to ${result.content?.html_url}`); // Log success URL
-        results.push(result);
-      } catch (error) {
-        console.error(`Error uploading ${file.name}.png to ${repoFullName}/${baseFolder}:`, error);
-        throw error; // Re-throw to ensure overall failure is reported
-      }
-    }
-    
-    // Final rate limit update after all operations
-    if (this.octokit) {
-      this.rateLimitService.updateRateLimits(this.octokit).catch(console.error);
+    let commit: CommitResult;
+    try {
+      commit = await this.commitFiles({
+        owner: folderPath.username,
+        repo: folderPath.repo,
+        files: filesToUpload.map(file => ({
+          path: `${baseFolder}/${file.name}.png`,
+          // Extract base64 content from data URL
+          content: file.preview!.split(',')[1],
+        })),
+        message: `Upload OG card assets to ${baseFolder}`,
+        branch: options.branch,
+      });
+    } catch (error) {
+      console.error(`Error uploading OG card assets to ${repoFullName}/${baseFolder}:`, error);
+      throw error; // Re-throw to ensure overall failure is reported
     }
 
-    const finalBaseUrl = `https://cdn.jsdelivr.net/gh/${repoFullName}/${baseFolder}`;
+    console.log(`Committed ${commit.files.length} files to ${repoFullName}@${commit.commitSha}`);
+
+    const finalBaseUrl = buildJsDelivrBaseUrl(folderPath);
     console.log(`Upload process completed. Base URL: ${finalBaseUrl}`); // Log final URL structure
     return {
       success: true,
       baseUrl: finalBaseUrl,
-      results,
+      // Immutable URL that jsDelivr never resolves against a cached branch head
+      pinnedBaseUrl: buildJsDelivrBaseUrl(folderPath, commit.commitSha),
+      commitSha: commit.commitSha,
+      results: commit.files,
+    };
+  }
+
+  // Commits the card to branch og/<folder> and opens a pull request against the default branch,
+  // for repositories that protect it or want a review before a card goes live.
+  // Uploading the same folder again adds a commit to the branch and reuses its open pull request.
+  async proposeOgCardAssets(folderPath: FolderPath, files: ImageFile[]) {
+    this.octokit = this.authService.getOctokit();
+
+    if (!this.octokit) {
+      throw new Error('GitHub authentication required');
+    }
+
+    // A pull request needs at least one changed file
+    if (!files.some(f => f.preview)) {
+      throw new Error('No images to propose');
+    }
+
+    const { username: owner, repo, folder } = folderPath;
+    const branch = `og/${folder}`;
+    const { data: repoData } = await this.octokit.rest.repos.get({ owner, repo });
+    const base = repoData.default_branch;
+
+    // Branch off the current default branch the first time
+    try {
+      await this.octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+      const { data: baseRef } = await this.octokit.rest.git.getRef({ owner, repo, ref: `heads/${base}` });
+      await this.octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: baseRef.object.sha });
+    }
+
+    const upload = await this.uploadOgCardAssets(folderPath, files, { branch });
+
+    const { data: openPulls } = await this.octokit.rest.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${branch}`,
+      state: 'open',
+    });
+    let pull: { number: number; html_url: string } = openPulls[0];
+    if (!pull) {
+      const { data } = await this.octokit.rest.pulls.create({
+        owner,
+        repo,
+        head: branch,
+        base,
+        title: `Add preview card ${folder}`,
+        body: this.buildPullRequestBody(folderPath, upload.commitSha, upload.results.map(file => file.path)),
+      });
+      pull = data;
+    }
+
+    this.rateLimitService.updateRateLimits(this.octokit).catch(console.error);
+
+    const pullRequest: CardPullRequest = {
+      owner,
+      repo,
+      number: pull.number,
+      htmlUrl: pull.html_url,
+      branch,
+      state: 'open',
+      mergeCommitSha: null,
     };
+    return { ...upload, pullRequest };
+  }
+
+  // Pull request description with the card images inline, so reviewers see what will go live
+  private buildPullRequestBody(folderPath: FolderPath, commitSha: string, paths: string[]): string {
+    const { username: owner, repo, folder } = folderPath;
+    // blob URLs with ?raw=true also render for private repositories the reviewer can read
+    const images = paths.map(path => {
+      const name = path.split('/').pop();
+      return `| ${name} | ![${name}](https://github.com/${owner}/${repo}/blob/${commitSha}/${path}?raw=true) |`;
+    });
+
+    return [
+      `Adds the preview card assets in \`og/${folder}\`.`,
+      '',
+      '| File | Preview |',
+      '| --- | --- |',
+      ...images,
+      '',
+      `Once merged, the card is served from ${buildJsDelivrBaseUrl(folderPath)}`,
+    ].join('\n');
+  }
+
+  // Current state of a card's pull request
+  async getPullRequest(pullRequest: CardPullRequest): Promise<CardPullRequest> {
+    this.octokit = this.authService.getOctokit();
+
+    if (!this.octokit) {
+      throw new Error('GitHub authentication required');
+    }
+
+    const { data } = await this.octokit.rest.pulls.get({
+      owner: pullRequest.owner,
+      repo: pullRequest.repo,
+      pull_number: pullRequest.number,
+    });
+    return {
+      ...pullRequest,
+      htmlUrl: data.html_url,
+      state: data.merged ? 'merged' : data.state === 'open' ? 'open' : 'closed',
+      mergeCommitSha: data.merged ? data.merge_commit_sha : null,
+    };
+  }
+
+  // Create a lightweight tag pointing at a commit, e.g. to pin a published card
+  async createTag(owner: string, repo: string, tag: string, sha: string) {
+    this.octokit = this.authService.getOctokit();
+    
+    if (!this.octokit) {
+      throw new Error('GitHub authentication required');
+    }
+
+    try {
+      const { data } = await this.octokit.rest.git.createRef({
+        owner,
+        repo,
+        ref: `refs/tags/${tag}`,
+        sha,
+      });
+
+      this.rateLimitService.updateRateLimits(this.octokit).catch(console.error);
+
+      return data;
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      if ((error as { status?: number }).status === 422) {
+        throw new Error(`Tag '${tag}' already exists or is not a valid tag name.`);
+      }
+      throw new Error(`Failed to create tag: ${error instanceof Error ? error.message : error}`);
+    }
   }
 
-  async createRepository(repoName: string, isPrivate: boolean = false) {
+  // Creates the repository under org when given, otherwise under the signed-in user
+  async createRepository(repoName: string, isPrivate: boolean = false, org?: string) {
     this.octokit = this.authService.getOctokit();
     
     if (!this.octokit) {
@@ -259,11 +717,18 @@ export class GitHubService {
     }
 
     try {
-      const { data } = await this.octokit.rest.repos.createForAuthenticatedUser({
-        name: repoName,
-        private: isPrivate,
-        auto_init: true, // Initialize with a README
-      });
+      const { data } = org
+        ? await this.octokit.rest.repos.createInOrg({
+          org,
+          name: repoName,
+          private: isPrivate,
+          auto_init: true, // Initialize with a README
+        })
+        : await this.octokit.rest.repos.createForAuthenticatedUser({
+          name: repoName,
+          private: isPrivate,
+          auto_init: true, // Initialize with a README
+        });
 
       // Ensure the 'og' folder exists (add .gitkeep to ensure it's pushed)
       const owner = data.owner.login;
@@ -293,13 +758,14 @@ export class GitHubService {
    * Creates a new PUBLIC repository for the authenticated user.
    * Initializes the repository with a README and an 'og' folder.
    * @param repoName The name for the new repository.
+   * @param org Organization to create it in, or the user's account when omitted.
    * @returns The data for the created repository.
    */
-  async createNewPublicRepository(repoName: string): Promise<GitHubRepository> {
+  async createNewPublicRepository(repoName: string, org?: string): Promise<GitHubRepository> {
     console.log(`Attempting to create new public repository: ${repoName}`);
     // We reuse the existing createRepository but force isPrivate to false
     try {
-      const createdRepo = await this.createRepository(repoName, false); // Always public
+      const createdRepo = await this.createRepository(repoName, false, org); // Always public
       console.log(`Successfully created public repository: ${createdRepo.full_name}`);
       
       // Map the response to our GitHubRepository interface
@@ -462,6 +928,141 @@ export class GitHubService {
     }
   }
 
+  // List every card folder under og/ in the given repository
+  async listCardFolders(owner: string, repo: string): Promise<CardFolder[]> {
+    this.octokit = this.authService.getOctokit() || this.octokit;
+
+    let content;
+    try {
+      content = await this.getRepositoryContent(owner, repo, 'og');
+    } catch (error) {
+      // A repository without an og/ folder simply has no cards yet
+      if ((error as { status?: number }).status === 404) {
+        return [];
+      }
+      throw error;
+    }
+
+    if (!Array.isArray(content)) {
+      return [];
+    }
+
+    return content
+      .filter(item => item.type === 'dir')
+      .map(item => ({
+        name: item.name,
+        path: item.path,
+        sha: item.sha,
+        thumbnailUrl: `https://raw.githubusercontent.com/${owner}/${repo}/HEAD/${item.path}/inner.png`,
+      }));
+  }
+
+  // Delete several card folders under og/ in a single commit
+  async deleteCardFolders(owner: string, repo: string, folders: string[]): Promise<CommitResult> {
+    if (folders.length === 0) {
+      throw new Error('No folders selected for deletion');
+    }
+
+    try {
+      this.rateLimitService.checkRateLimit('core', 7);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit exceeded')) {
+        throw error;
+      }
+    }
+
+    const result = await this.commitFiles({
+      owner,
+      repo,
+      files: [],
+      deleteFolders: folders.map(folder => `og/${folder}`),
+      message: folders.length === 1
+        ? `Remove unused OG card og/${folders[0]}`
+        : `Remove ${folders.length} unused OG cards`,
+    });
+
+    console.log(`Deleted ${result.deletedPaths.length} files from ${owner}/${repo}@${result.commitSha}`);
+    return result;
+  }
+
+  // Download the inner, outer and overlay PNGs of a published card folder
+  async getCardFolderAssets(owner: string, repo: string, folder: string): Promise<ImageFile[]> {
+    this.octokit = this.authService.getOctokit() || this.octokit;
+
+    if (!this.octokit) {
+      throw new Error('Not authenticated');
+    }
+
+    const content = await this.getRepositoryContent(owner, repo, `og/${folder}`);
+    if (!Array.isArray(content)) {
+      throw new Error(`og/${folder} is not a folder`);
+    }
+
+    const names: ImageFile['name'][] = ['inner', 'outer', 'overlay'];
+    return Promise.all(names.map(async name => {
+      const entry = content.find(item => item.type === 'file' && item.name === `${name}.png`);
+      if (!entry) {
+        return { name, file: null, preview: null };
+      }
+
+      // Use the blob API since the contents API omits content for files over 1MB
+      const { data } = await this.octokit!.rest.git.getBlob({
+        owner,
+        repo,
+        file_sha: entry.sha,
+      });
+      const base64Content = data.content.replace(/\n/g, '');
+      const bytes = Uint8Array.from(atob(base64Content), c => c.charCodeAt(0));
+
+      return {
+        name,
+        file: new File([bytes], `${name}.png`, { type: 'image/png' }),
+        preview: `data:image/png;base64,${base64Content}`,
+      };
+    }));
+  }
+
+  // Whether a classic token could create a repository. Fine-grained tokens don't say, so null.
+  canCreateRepositories(): boolean | null {
+    const scopes = this.authService.getTokenScopes();
+    return scopes ? scopes.includes('repo') || scopes.includes('public_repo') : null;
+  }
+
+  // Read and write access of the token to a repository. Classic tokens are checked against their
+  // x-oauth-scopes. Fine-grained tokens only get repos.get for repositories they were granted, and
+  // their write access is taken from the account's push permission, so commitFiles still reports a missing Contents grant.
+  async getRepositoryPermissions(owner: string, repo: string): Promise<RepositoryPermissions> {
+    const scopes = this.authService.getTokenScopes();
+    const canCreateRepos = this.canCreateRepositories();
+
+    if (this.isUsingSimulatedToken()) {
+      return { read: true, write: true, canCreateRepos: true, scopes };
+    }
+
+    this.octokit = this.authService.getOctokit();
+    if (!this.octokit) {
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      const { data } = await this.octokit.rest.repos.get({ owner, repo });
+      const scopesAllowWrite = !scopes || scopes.includes('repo') || (scopes.includes('public_repo') && !data.private);
+      return {
+        read: true,
+        write: !!data.permissions?.push && scopesAllowWrite,
+        canCreateRepos,
+        scopes,
+      };
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 403 || status === 404) {
+        return { read: false, write: false, canCreateRepos, scopes };
+      }
+      console.error('Error checking repository permissions:', error);
+      throw error;
+    }
+  }
+
   // Get a specific repository by owner and name
   async getRepositoryInfo(owner: string, repo: string) {
     // Return mock data if using simulated token
@@ -0,0 +1,63 @@
+import { GitHubService } from './githubService';
+import { StorageProvider, StorageUploadResult, StoredCard } from './storageProvider';
+import { buildJsDelivrBaseUrl } from './cdnUrl';
+import { CardPullRequest, ImageFile } from './types';
+
+// Stores cards under og/ in a public GitHub repository, served through jsDelivr
+export class GitHubStorageProvider implements StorageProvider {
+  readonly id = 'github' as const;
+  readonly label = 'GitHub + jsDelivr';
+  private githubService: GitHubService;
+
+  constructor(
+    private owner: string,
+    private repo: string,
+    githubService: GitHubService = new GitHubService()
+  ) {
+    this.githubService = githubService;
+  }
+
+  async uploadCard(folder: string, files: ImageFile[]): Promise<StorageUploadResult> {
+    const result = await this.githubService.uploadOgCardAssets(
+      { username: this.owner, repo: this.repo, folder },
+      files
+    );
+    return {
+      baseUrl: result.baseUrl,
+      files: result.results,
+      commitSha: result.commitSha,
+    };
+  }
+
+  // Like uploadCard, but on branch og/<folder> with a pull request instead of on the default branch
+  async proposeCard(folder: string, files: ImageFile[]): Promise<StorageUploadResult & { pullRequest: CardPullRequest }> {
+    const result = await this.githubService.proposeOgCardAssets(
+      { username: this.owner, repo: this.repo, folder },
+      files
+    );
+    return {
+      baseUrl: result.baseUrl,
+      files: result.results,
+      commitSha: result.commitSha,
+      pullRequest: result.pullRequest,
+    };
+  }
+
+  async listCards(): Promise<StoredCard[]> {
+    const folders = await this.githubService.listCardFolders(this.owner, this.repo);
+    return folders.map(folder => ({
+      id: folder.name,
+      name: folder.name,
+      baseUrl: this.getBaseUrl(folder.name),
+      thumbnailUrl: folder.thumbnailUrl,
+    }));
+  }
+
+  async deleteCards(ids: string[]): Promise<void> {
+    await this.githubService.deleteCardFolders(this.owner, this.repo, ids);
+  }
+
+  getBaseUrl(folder: string): string {
+    return buildJsDelivrBaseUrl({ username: this.owner, repo: this.repo, folder });
+  }
+}
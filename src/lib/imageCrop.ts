@@ -0,0 +1,72 @@
+import { loadImage } from './cardCompositor';
+
+// Pan, zoom and rotation applied to a source image inside a fixed-size crop frame
+export interface CropTransform {
+  zoom: number; // 1 = image just covers the frame
+  rotation: number; // Degrees, clockwise
+  offsetX: number; // Pan in output pixels
+  offsetY: number;
+}
+
+export const DEFAULT_CROP_TRANSFORM: CropTransform = {
+  zoom: 1,
+  rotation: 0,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+// Draw the transformed image into a width x height frame
+export function drawCroppedImage(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  width: number,
+  height: number,
+  transform: CropTransform
+) {
+  // At zoom 1 the image covers the whole frame, like object-fit: cover. The image is rotated,
+  // so it has to cover the frame's bounding box in the image's own orientation.
+  const radians = (transform.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const coverWidth = width * cos + height * sin;
+  const coverHeight = width * sin + height * cos;
+  const scale = Math.max(coverWidth / img.width, coverHeight / img.height) * transform.zoom;
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.save();
+  ctx.translate(width / 2 + transform.offsetX, height / 2 + transform.offsetY);
+  ctx.rotate(radians);
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  ctx.restore();
+}
+
+// Crop the image at src to exactly width x height pixels and return it as a PNG blob
+export async function cropImage(
+  src: string,
+  width: number,
+  height: number,
+  transform: CropTransform
+): Promise<Blob> {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  drawCroppedImage(ctx, img, width, height, transform);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not convert canvas to blob'));
+      }
+    }, 'image/png');
+  });
+}
@@ -0,0 +1,101 @@
+import { StorageProvider, StorageUploadResult, StoredCard, getUploadableImages } from './storageProvider';
+import { ImageFile } from './types';
+
+export interface IpfsStorageConfig {
+  apiUrl: string; // Pinning service API, e.g. https://api.pinata.cloud
+  jwt: string;
+  gatewayUrl: string; // HTTP gateway used for thumbnails, e.g. https://gateway.pinata.cloud
+}
+
+export const DEFAULT_IPFS_CONFIG: IpfsStorageConfig = {
+  apiUrl: 'https://api.pinata.cloud',
+  jwt: '',
+  gatewayUrl: 'https://gateway.pinata.cloud',
+};
+
+// Metadata tag used to find this app's pins again
+const PIN_APP_TAG = 'previewcard-yapp';
+
+// Pins each card as an IPFS directory through a Pinata-compatible pinning API.
+// Content is addressed by CID, so every upload yields a new, immutable ipfs:// baseUrl.
+export class IpfsStorageProvider implements StorageProvider {
+  readonly id = 'ipfs' as const;
+  readonly label = 'IPFS (pinning service)';
+
+  constructor(private config: IpfsStorageConfig) {}
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    if (!this.config.jwt) {
+      throw new Error('IPFS pinning service token is required');
+    }
+
+    const response = await fetch(`${this.config.apiUrl.replace(/\/$/, '')}${path}`, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${this.config.jwt}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`IPFS pinning service responded with status ${response.status}: ${await response.text()}`);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+
+  // HTTP gateway URL for content under an ipfs:// URL
+  toGatewayUrl(ipfsUrl: string): string {
+    return ipfsUrl.replace(/^ipfs:\/\//, `${this.config.gatewayUrl.replace(/\/$/, '')}/ipfs/`);
+  }
+
+  async uploadCard(folder: string, files: ImageFile[]): Promise<StorageUploadResult> {
+    const images = getUploadableImages(files);
+    if (images.length === 0) {
+      throw new Error('No files to upload');
+    }
+
+    // Files sharing a folder prefix are pinned as one directory, whose CID is returned
+    const form = new FormData();
+    images.forEach(image => form.append('file', image.blob, `${folder}/${image.fileName}`));
+    form.append('pinataMetadata', JSON.stringify({ name: folder, keyvalues: { app: PIN_APP_TAG } }));
+    form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+    const result = await this.request<{ IpfsHash: string }>('/pinning/pinFileToIPFS', {
+      method: 'POST',
+      body: form,
+    });
+
+    return {
+      baseUrl: `ipfs://${result.IpfsHash}`,
+      files: images.map(image => ({ path: `${result.IpfsHash}/${image.fileName}` })),
+    };
+  }
+
+  async listCards(): Promise<StoredCard[]> {
+    const filter = encodeURIComponent(JSON.stringify({ app: { value: PIN_APP_TAG, op: 'eq' } }));
+    const result = await this.request<{ rows: { ipfs_pin_hash: string; metadata?: { name?: string } }[] }>(
+      `/data/pinList?status=pinned&pageLimit=100&metadata[keyvalues]=${filter}`
+    );
+
+    return result.rows.map(row => {
+      const baseUrl = `ipfs://${row.ipfs_pin_hash}`;
+      return {
+        id: row.ipfs_pin_hash,
+        name: row.metadata?.name || row.ipfs_pin_hash,
+        baseUrl,
+        thumbnailUrl: `${this.toGatewayUrl(baseUrl)}/inner.png`,
+      };
+    });
+  }
+
+  async deleteCards(ids: string[]): Promise<void> {
+    for (const cid of ids) {
+      await this.request(`/pinning/unpin/${cid}`, { method: 'DELETE' });
+    }
+  }
+
+  getBaseUrl(): string | null {
+    return null;
+  }
+}
@@ -0,0 +1,79 @@
+import { StorageProvider, StorageUploadResult, StoredCard, getUploadableImages } from './storageProvider';
+import { ImageFile } from './types';
+
+// Path of the dev server middleware registered in vite.config.ts
+export const LOCAL_STORAGE_ROUTE = '/__og-storage';
+
+export interface LocalStorageConfig {
+  serverUrl: string; // Origin of the Vite dev server
+}
+
+export const DEFAULT_LOCAL_CONFIG: LocalStorageConfig = {
+  serverUrl: typeof window !== 'undefined' ? window.location.origin : 'http://localhost:8080',
+};
+
+// Development-only provider that writes cards to the local filesystem through the
+// Vite dev server. Nothing is public, so use it to test the flow without any accounts.
+export class LocalStorageProvider implements StorageProvider {
+  readonly id = 'local' as const;
+  readonly label = 'Local filesystem (dev server)';
+
+  constructor(private config: LocalStorageConfig) {}
+
+  private get rootUrl(): string {
+    return `${this.config.serverUrl.replace(/\/$/, '')}${LOCAL_STORAGE_ROUTE}/og`;
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new Error('Local storage is only available while running the Vite dev server');
+    }
+    if (!response.ok) {
+      throw new Error(`Local storage responded with status ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  async uploadCard(folder: string, files: ImageFile[]): Promise<StorageUploadResult> {
+    const images = getUploadableImages(files);
+    if (images.length === 0) {
+      throw new Error('No files to upload');
+    }
+
+    for (const image of images) {
+      await this.request(`${this.rootUrl}/${encodeURIComponent(folder)}/${image.fileName}`, {
+        method: 'PUT',
+        body: image.blob,
+      });
+    }
+
+    return {
+      baseUrl: this.getBaseUrl(folder),
+      files: images.map(image => ({ path: `og/${folder}/${image.fileName}` })),
+    };
+  }
+
+  async listCards(): Promise<StoredCard[]> {
+    const response = await this.request(this.rootUrl);
+    const folders: string[] = await response.json();
+    return folders.map(folder => ({
+      id: folder,
+      name: folder,
+      baseUrl: this.getBaseUrl(folder),
+      thumbnailUrl: `${this.getBaseUrl(folder)}/inner.png`,
+    }));
+  }
+
+  async deleteCards(ids: string[]): Promise<void> {
+    for (const folder of ids) {
+      await this.request(`${this.rootUrl}/${encodeURIComponent(folder)}`, { method: 'DELETE' });
+    }
+  }
+
+  getBaseUrl(folder: string): string {
+    return `${this.rootUrl}/${encodeURIComponent(folder)}`;
+  }
+}
@@ -0,0 +1,150 @@
+import { Address } from 'viem';
+import { ENSService } from './ensService';
+
+export type NameIndexerId = 'subgraph' | 'fixture' | 'reverse';
+
+// How an address relates to a name it can update
+export type NameRole = 'primary' | 'owner' | 'manager';
+
+export interface OwnedName {
+  name: string;
+  roles: NameRole[];
+  expiresAt: number | null; // Unix seconds, null for subnames and names without a registration
+}
+
+// Lists the ENS names an address owns or manages
+export interface NameIndexer {
+  readonly id: NameIndexerId;
+  listNames(address: Address): Promise<OwnedName[]>;
+}
+
+// Combine entries for the same name, keeping every role it was found under
+export function mergeOwnedNames(names: OwnedName[]): OwnedName[] {
+  const byName = new Map<string, OwnedName>();
+  for (const entry of names) {
+    const existing = byName.get(entry.name);
+    byName.set(entry.name, existing
+      ? {
+        name: entry.name,
+        roles: Array.from(new Set([...existing.roles, ...entry.roles])),
+        expiresAt: existing.expiresAt ?? entry.expiresAt,
+      }
+      : entry);
+  }
+  // Primary name first, the rest alphabetically
+  return Array.from(byName.values()).sort((a, b) =>
+    Number(b.roles.includes('primary')) - Number(a.roles.includes('primary')) || a.name.localeCompare(b.name)
+  );
+}
+
+// Only the reverse record's primary name, for when no indexer is configured
+export class ReverseRecordIndexer implements NameIndexer {
+  readonly id = 'reverse';
+
+  constructor(private ensService: ENSService = new ENSService()) {}
+
+  async listNames(address: Address): Promise<OwnedName[]> {
+    const name = await this.ensService.getENSNameForAddress(address);
+    return name ? [{ name, roles: ['primary'], expiresAt: null }] : [];
+  }
+}
+
+interface SubgraphDomain {
+  name: string | null;
+  expiryDate?: string | null;
+}
+
+interface SubgraphResponse {
+  data?: {
+    account: { domain: SubgraphDomain | null } | null;
+    managed: SubgraphDomain[];
+    wrapped: SubgraphDomain[];
+    registrations: { expiryDate: string; domain: SubgraphDomain }[];
+  };
+  errors?: { message: string }[];
+}
+
+const OWNED_NAMES_QUERY = `
+  query OwnedNames($address: String!) {
+    account(id: $address) { domain: reverseRecord { name } }
+    managed: domains(where: { owner: $address }, first: 1000) { name }
+    wrapped: wrappedDomains(where: { owner: $address }, first: 1000) { name expiryDate }
+    registrations(where: { registrant: $address }, first: 1000) { expiryDate domain { name } }
+  }
+`;
+
+// Names from the ENS subgraph: registry managers, NameWrapper owners and .eth registrants
+export class SubgraphNameIndexer implements NameIndexer {
+  readonly id = 'subgraph';
+
+  constructor(private url: string) {}
+
+  async listNames(address: Address): Promise<OwnedName[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: OWNED_NAMES_QUERY, variables: { address: address.toLowerCase() } }),
+    });
+    if (!response.ok) {
+      throw new Error(`ENS subgraph request failed: ${response.status}`);
+    }
+
+    const { data, errors } = await response.json() as SubgraphResponse;
+    if (errors?.length || !data) {
+      throw new Error(`ENS subgraph error: ${errors?.[0]?.message || 'no data returned'}`);
+    }
+
+    const entries: OwnedName[] = [
+      ...(data.account?.domain?.name ? [{ name: data.account.domain.name, roles: ['primary'] as NameRole[], expiresAt: null }] : []),
+      ...data.managed.map(domain => ({ name: domain.name, roles: ['manager'] as NameRole[], expiresAt: null })),
+      ...data.wrapped.map(domain => ({ name: domain.name, roles: ['owner'] as NameRole[], expiresAt: Number(domain.expiryDate) || null })),
+      ...data.registrations.map(r => ({ name: r.domain.name, roles: ['owner'] as NameRole[], expiresAt: Number(r.expiryDate) || null })),
+    ];
+    // Names whose labels the subgraph doesn't know show up as [labelhash] and can't be normalized
+    return mergeOwnedNames(entries.filter(entry => entry.name && !entry.name.includes('[')));
+  }
+}
+
+// Fixed names per address, for local chains and tests without an indexer
+export class FixtureNameIndexer implements NameIndexer {
+  readonly id = 'fixture';
+
+  constructor(private loadFixture: () => Promise<Record<string, OwnedName[]>>) {}
+
+  async listNames(address: Address): Promise<OwnedName[]> {
+    const fixture = await this.loadFixture();
+    return mergeOwnedNames(fixture[address.toLowerCase()] || []);
+  }
+}
+
+export interface NameIndexerSetup {
+  indexer: NameIndexer;
+  error: string | null; // Why the configured indexer couldn't be used, in which case the reverse indexer is
+}
+
+// Indexer picked by VITE_NAME_INDEXER, defaulting to the subgraph when its URL is set.
+// A misconfigured indexer falls back to the reverse record instead of throwing.
+export function createNameIndexer(): NameIndexerSetup {
+  const subgraphUrl = import.meta.env.VITE_ENS_SUBGRAPH_URL;
+  const id = import.meta.env.VITE_NAME_INDEXER || (subgraphUrl ? 'subgraph' : 'reverse');
+  const fallback = (error: string): NameIndexerSetup => {
+    console.error(error);
+    return { indexer: new ReverseRecordIndexer(), error };
+  };
+
+  switch (id) {
+    case 'subgraph':
+      return subgraphUrl
+        ? { indexer: new SubgraphNameIndexer(subgraphUrl), error: null }
+        : fallback('VITE_ENS_SUBGRAPH_URL is required for the subgraph name indexer');
+    case 'fixture':
+      // Only the dev server bundles the fixture, so it never ships in production builds
+      return import.meta.env.DEV
+        ? { indexer: new FixtureNameIndexer(() => import('@/fixtures/ownedNames').then(m => m.OWNED_NAMES_FIXTURE)), error: null }
+        : fallback('The fixture name indexer is only available in the dev server');
+    case 'reverse':
+      return { indexer: new ReverseRecordIndexer(), error: null };
+    default:
+      return fallback(`Unknown name indexer "${id}", expected subgraph, fixture or reverse`);
+  }
+}
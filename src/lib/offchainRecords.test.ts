@@ -0,0 +1,120 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseError, encodeErrorResult } from 'viem';
+import { getAccount, signTypedData } from 'wagmi/actions';
+import { offchainStorageErrorAbi } from './ensContracts';
+import { OffchainWriteRequest, parseOffchainWriteError, submitOffchainWrite } from './offchainRecords';
+
+// The wallet is replaced; everything after signing goes to a real HTTP gateway stub
+vi.mock('wagmi/actions', () => ({
+  getAccount: vi.fn(),
+  signTypedData: vi.fn(),
+}));
+vi.mock('./rainbowkit', () => ({ config: {} }));
+
+const SENDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const SIGNATURE = '0x1234';
+
+interface GatewayRequest {
+  method?: string;
+  contentType?: string;
+  body: unknown;
+}
+
+// Local gateway that records each request and answers with the configured status
+function startGateway(status: number, reply: string): Promise<{ server: Server; url: string; requests: GatewayRequest[] }> {
+  const requests: GatewayRequest[] = [];
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ method: req.method, contentType: req.headers['content-type'], body: JSON.parse(raw) });
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(reply);
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/update`, requests });
+    });
+  });
+}
+
+const buildRequest = (url: string): OffchainWriteRequest => ({
+  url,
+  domain: { name: 'DatabaseConfig', version: '1', chainId: 1n, verifyingContract: '0x0000000000000000000000000000000000000001' },
+  message: { data: '0xabcdef', sender: SENDER, expirationTimestamp: 18446744073709551617n },
+});
+
+describe('submitOffchainWrite', () => {
+  let gateway: Awaited<ReturnType<typeof startGateway>> | null = null;
+
+  beforeEach(() => {
+    vi.mocked(getAccount).mockReturnValue({ address: SENDER } as ReturnType<typeof getAccount>);
+    vi.mocked(signTypedData).mockResolvedValue(SIGNATURE);
+  });
+
+  afterEach(async () => {
+    if (gateway) {
+      const { server } = gateway;
+      await new Promise(resolve => server.close(resolve));
+      gateway = null;
+    }
+    vi.clearAllMocks();
+  });
+
+  it('posts the signed message to the gateway with the expiration as a decimal string', async () => {
+    gateway = await startGateway(200, 'ok');
+
+    await submitOffchainWrite(buildRequest(gateway.url));
+
+    expect(gateway.requests).toEqual([{
+      method: 'POST',
+      contentType: 'application/json',
+      body: {
+        data: { data: '0xabcdef', sender: SENDER, expirationTimestamp: '18446744073709551617' },
+        signature: SIGNATURE,
+      },
+    }]);
+    expect(signTypedData).toHaveBeenCalledWith({}, expect.objectContaining({ account: SENDER, primaryType: 'Message' }));
+  });
+
+  it('reports the status and body when the gateway rejects the update', async () => {
+    gateway = await startGateway(403, 'signature expired');
+
+    await expect(submitOffchainWrite(buildRequest(gateway.url)))
+      .rejects.toThrow('Offchain gateway rejected the update (403): signature expired');
+  });
+
+  it('refuses to sign without a connected wallet', async () => {
+    vi.mocked(getAccount).mockReturnValue({ address: undefined } as ReturnType<typeof getAccount>);
+
+    await expect(submitOffchainWrite(buildRequest('http://127.0.0.1:1/update')))
+      .rejects.toThrow('Connect a wallet to sign the offchain update');
+    expect(signTypedData).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseOffchainWriteError', () => {
+  it('decodes the StorageHandledByOffChainDatabase revert', () => {
+    const request = buildRequest('https://gateway.example/update');
+    const data = encodeErrorResult({
+      abi: offchainStorageErrorAbi,
+      errorName: 'StorageHandledByOffChainDatabase',
+      args: [request.domain, request.url, request.message],
+    });
+    const error = new BaseError('Execution reverted', { cause: Object.assign(new Error('revert'), { data }) });
+
+    expect(parseOffchainWriteError(error)).toEqual(request);
+  });
+
+  it('ignores other errors', () => {
+    expect(parseOffchainWriteError(new Error('network down'))).toBeNull();
+    expect(parseOffchainWriteError(new BaseError('Execution reverted'))).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { Address, BaseError, decodeErrorResult, Hex } from 'viem';
+import { getAccount, signTypedData } from 'wagmi/actions';
+import { config as wagmiConfig } from './rainbowkit';
+import { offchainStorageErrorAbi } from './ensContracts';
+
+// A write the resolver deferred to an offchain gateway (EIP-5559), to be signed by the wallet
+export interface OffchainWriteRequest {
+  url: string;
+  domain: {
+    name: string;
+    version: string;
+    chainId: bigint;
+    verifyingContract: Address;
+  };
+  message: {
+    data: Hex;
+    sender: Address;
+    expirationTimestamp: bigint;
+  };
+}
+
+const MESSAGE_TYPES = {
+  Message: [
+    { name: 'data', type: 'bytes' },
+    { name: 'sender', type: 'address' },
+    { name: 'expirationTimestamp', type: 'uint256' },
+  ],
+} as const;
+
+// Find the StorageHandledByOffChainDatabase revert in a failed call, if that is why it failed
+export function parseOffchainWriteError(error: unknown): OffchainWriteRequest | null {
+  if (!(error instanceof BaseError)) {
+    return null;
+  }
+
+  const revert = error.walk(e => typeof (e as { data?: unknown }).data === 'string');
+  const data = (revert as { data?: Hex } | null)?.data;
+  if (!data) {
+    return null;
+  }
+
+  try {
+    const decoded = decodeErrorResult({ abi: offchainStorageErrorAbi, data });
+    const [domain, url, message] = decoded.args;
+    return { url, domain, message };
+  } catch (e) {
+    return null;
+  }
+}
+
+// Sign the deferred write with the connected wallet and hand it to the gateway
+export async function submitOffchainWrite(request: OffchainWriteRequest, config = wagmiConfig): Promise<void> {
+  const { address: account } = getAccount(config);
+  if (!account) {
+    throw new Error('Connect a wallet to sign the offchain update');
+  }
+
+  const signature = await signTypedData(config, {
+    account,
+    domain: request.domain,
+    types: MESSAGE_TYPES,
+    primaryType: 'Message',
+    message: request.message,
+  });
+
+  const response = await fetch(request.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      data: {
+        data: request.message.data,
+        sender: request.message.sender,
+        expirationTimestamp: request.message.expirationTimestamp.toString(),
+      },
+      signature,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Offchain gateway rejected the update (${response.status}): ${await response.text()}`);
+  }
+}
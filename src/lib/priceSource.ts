@@ -0,0 +1,57 @@
+export type PriceSourceId = 'coingecko' | 'fixed';
+
+// Where fiat prices for ETH come from
+export interface PriceSource {
+  readonly id: PriceSourceId;
+  getEthPrice(currency: string): Promise<number>;
+}
+
+const PRICE_CACHE_MS = 60 * 1000;
+
+// Spot price from the public CoinGecko API, cached for a minute to stay under its rate limit
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly id = 'coingecko';
+  private cache = new Map<string, { price: number; fetchedAt: number }>();
+
+  async getEthPrice(currency: string): Promise<number> {
+    const key = currency.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_MS) {
+      return cached.price;
+    }
+
+    const response = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=${key}`);
+    if (!response.ok) {
+      throw new Error(`Price request failed: ${response.status}`);
+    }
+    const data = await response.json() as { ethereum?: { [currency: string]: number } };
+    const price = data.ethereum?.[key];
+    if (typeof price !== 'number') {
+      throw new Error(`No ETH price in ${currency}`);
+    }
+
+    this.cache.set(key, { price, fetchedAt: Date.now() });
+    return price;
+  }
+}
+
+// A constant price, for tests and offline development
+export class FixedPriceSource implements PriceSource {
+  readonly id = 'fixed';
+
+  constructor(private price: number) {}
+
+  async getEthPrice(): Promise<number> {
+    return this.price;
+  }
+}
+
+// Price source picked by VITE_PRICE_SOURCE, CoinGecko by default
+export function createPriceSource(): PriceSource {
+  if (import.meta.env.VITE_PRICE_SOURCE === 'fixed') {
+    return new FixedPriceSource(Number(import.meta.env.VITE_FIXED_ETH_PRICE) || 3000);
+  }
+  return new CoinGeckoPriceSource();
+}
+
+export const FIAT_CURRENCY = import.meta.env.VITE_FIAT_CURRENCY || 'USD';
@@ -1,16 +1,24 @@
 import '@rainbow-me/rainbowkit/styles.css';
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
 import { mainnet } from 'wagmi/chains';
-import { http } from 'viem';
+import { Chain, http, Transport } from 'viem';
 import { QueryClient } from '@tanstack/react-query';
+import { ENS_NETWORKS } from './ensNetworks';
 
 export const queryClient = new QueryClient();
 
+// Every chain ENS records can be written on, so the wallet can switch between them
+const chains = ENS_NETWORKS.map(network => network.chain) as [Chain, ...Chain[]];
+
+// Mainnet reads (ENS lookups) go through this RPC, so they work without a connected wallet.
+// Defaults to the chain's public RPC; point it at a local fork in tests.
+const mainnetRpcUrl = import.meta.env.VITE_MAINNET_RPC_URL || undefined;
+
 export const config = getDefaultConfig({
   appName: 'Preview Card Yapp',
   projectId: '362b839f0569ebd7db49535549783fcd',
-  chains: [mainnet],
-  transports: {
-    [mainnet.id]: http(),
-  },
-}); 
\ No newline at end of file
+  chains,
+  transports: Object.fromEntries(
+    chains.map(chain => [chain.id, http(chain.id === mainnet.id ? mainnetRpcUrl : undefined)])
+  ) as Record<number, Transport>,
+});
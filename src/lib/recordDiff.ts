@@ -0,0 +1,28 @@
+export type RecordChangeType = 'added' | 'removed' | 'changed';
+
+export interface RecordChange {
+  key: string;
+  type: RecordChangeType;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Top-level differences between two JSON records, in key order of the updated record
+export function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>): RecordChange[] {
+  const keys = Array.from(new Set([...Object.keys(after), ...Object.keys(before)]));
+  const changes: RecordChange[] = [];
+
+  keys.forEach(key => {
+    const inBefore = key in before;
+    const inAfter = key in after;
+    if (!inBefore) {
+      changes.push({ key, type: 'added', after: after[key] });
+    } else if (!inAfter) {
+      changes.push({ key, type: 'removed', before: before[key] });
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.push({ key, type: 'changed', before: before[key], after: after[key] });
+    }
+  });
+
+  return changes;
+}
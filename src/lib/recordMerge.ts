@@ -0,0 +1,97 @@
+// Merging of me.yodl records, shared by every place that edits one
+
+type JsonObject = Record<string, unknown>;
+
+export function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Recursively apply patch to record. Nested objects are merged so keys the patch doesn't
+// mention are kept; arrays and other values from the patch replace what was there.
+export function deepMerge(record: JsonObject, patch: JsonObject): JsonObject {
+  const merged: JsonObject = { ...record };
+  Object.entries(patch).forEach(([key, value]) => {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? deepMerge(merged[key] as JsonObject, value)
+      : value;
+  });
+  return merged;
+}
+
+// The record with a new preview card URL, keeping everything else under og
+export function withOgBaseUrl(record: JsonObject, baseUrl: string): JsonObject {
+  return deepMerge(record, { og: { baseUrl } });
+}
+
+// A value both sides changed differently since the common base. Undefined means the key is absent.
+export interface RecordConflict {
+  path: string[];
+  base: unknown;
+  theirs: unknown;
+  mine: unknown;
+}
+
+export type ConflictChoice = 'theirs' | 'mine';
+
+export interface ThreeWayMerge {
+  merged: JsonObject; // Every change from both sides, with mine winning conflicts until they are resolved
+  conflicts: RecordConflict[];
+}
+
+// Combine the edits in mine with the changes made on-chain (theirs) since both started from base
+export function mergeThreeWay(base: JsonObject, theirs: JsonObject, mine: JsonObject): ThreeWayMerge {
+  const conflicts: RecordConflict[] = [];
+
+  const mergeLevel = (baseLevel: JsonObject, theirsLevel: JsonObject, mineLevel: JsonObject, path: string[]): JsonObject => {
+    const merged: JsonObject = {};
+    const keys = Array.from(new Set([...Object.keys(mineLevel), ...Object.keys(theirsLevel), ...Object.keys(baseLevel)]));
+
+    keys.forEach(key => {
+      const [b, t, m] = [baseLevel[key], theirsLevel[key], mineLevel[key]];
+      let value: unknown;
+      if (isEqual(t, m) || isEqual(t, b)) {
+        value = m;
+      } else if (isEqual(m, b)) {
+        value = t;
+      } else if (isPlainObject(t) && isPlainObject(m)) {
+        value = mergeLevel(isPlainObject(b) ? b : {}, t, m, [...path, key]);
+      } else {
+        conflicts.push({ path: [...path, key], base: b, theirs: t, mine: m });
+        value = m;
+      }
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    });
+    return merged;
+  };
+
+  const merged = mergeLevel(base, theirs, mine, []);
+  return { merged, conflicts };
+}
+
+function setPath(record: JsonObject, path: string[], value: unknown): JsonObject {
+  const [key, ...rest] = path;
+  const next = { ...record };
+  if (rest.length > 0) {
+    next[key] = setPath(isPlainObject(next[key]) ? next[key] as JsonObject : {}, rest, value);
+  } else if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+}
+
+// Apply the user's pick for each conflict, keyed by the conflict's dotted path
+export function resolveConflicts(
+  result: ThreeWayMerge,
+  choices: { [path: string]: ConflictChoice }
+): JsonObject {
+  return result.conflicts.reduce((record, conflict) => {
+    const choice = choices[conflict.path.join('.')] || 'mine';
+    return setPath(record, conflict.path, conflict[choice]);
+  }, result.merged);
+}
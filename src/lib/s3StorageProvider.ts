@@ -0,0 +1,123 @@
+import { AwsClient } from 'aws4fetch';
+import { StorageProvider, StorageUploadResult, StoredCard, getUploadableImages } from './storageProvider';
+import { ImageFile } from './types';
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl: string; // Public base URL of the bucket, defaults to <endpoint>/<bucket>
+}
+
+export const DEFAULT_S3_CONFIG: S3StorageConfig = {
+  endpoint: 'http://localhost:9000',
+  region: 'us-east-1',
+  bucket: '',
+  accessKeyId: '',
+  secretAccessKey: '',
+  publicUrl: '',
+};
+
+// Stores cards under og/ in an S3-compatible bucket (AWS S3, MinIO, R2, ...).
+// Uses path-style URLs so it works with MinIO without DNS setup. The bucket must allow public reads.
+export class S3StorageProvider implements StorageProvider {
+  readonly id = 's3' as const;
+  readonly label = 'S3-compatible bucket';
+  private client: AwsClient;
+
+  constructor(private config: S3StorageConfig) {
+    this.client = new AwsClient({
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region,
+      service: 's3',
+    });
+  }
+
+  private get bucketUrl(): string {
+    return `${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}`;
+  }
+
+  private get publicUrl(): string {
+    return (this.config.publicUrl || this.bucketUrl).replace(/\/$/, '');
+  }
+
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    if (!this.config.bucket || !this.config.accessKeyId || !this.config.secretAccessKey) {
+      throw new Error('S3 bucket and credentials are required');
+    }
+
+    const response = await this.client.fetch(url, init);
+    if (!response.ok) {
+      throw new Error(`S3 responded with status ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  }
+
+  // List object keys or common prefixes below a prefix
+  private async listObjects(prefix: string, delimiter?: string): Promise<{ keys: string[]; prefixes: string[] }> {
+    const params = new URLSearchParams({ 'list-type': '2', prefix });
+    if (delimiter) {
+      params.set('delimiter', delimiter);
+    }
+
+    const response = await this.request(`${this.bucketUrl}?${params.toString()}`);
+    const xml = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    return {
+      keys: Array.from(xml.getElementsByTagName('Contents')).map(node => node.getElementsByTagName('Key')[0]?.textContent || ''),
+      prefixes: Array.from(xml.getElementsByTagName('CommonPrefixes')).map(node => node.getElementsByTagName('Prefix')[0]?.textContent || ''),
+    };
+  }
+
+  async uploadCard(folder: string, files: ImageFile[]): Promise<StorageUploadResult> {
+    const images = getUploadableImages(files);
+    if (images.length === 0) {
+      throw new Error('No files to upload');
+    }
+
+    // S3 has no multi-object transaction; objects are written one by one
+    const uploaded = [];
+    for (const image of images) {
+      const key = `og/${folder}/${image.fileName}`;
+      await this.request(`${this.bucketUrl}/${key}`, {
+        method: 'PUT',
+        body: image.blob,
+        headers: { 'Content-Type': 'image/png' },
+      });
+      uploaded.push({ path: key });
+    }
+
+    return {
+      baseUrl: this.getBaseUrl(folder),
+      files: uploaded,
+    };
+  }
+
+  async listCards(): Promise<StoredCard[]> {
+    const { prefixes } = await this.listObjects('og/', '/');
+    return prefixes
+      .map(prefix => prefix.replace(/^og\//, '').replace(/\/$/, ''))
+      .filter(Boolean)
+      .map(folder => ({
+        id: folder,
+        name: folder,
+        baseUrl: this.getBaseUrl(folder),
+        thumbnailUrl: `${this.getBaseUrl(folder)}/inner.png`,
+      }));
+  }
+
+  async deleteCards(ids: string[]): Promise<void> {
+    for (const folder of ids) {
+      const { keys } = await this.listObjects(`og/${folder}/`);
+      for (const key of keys) {
+        await this.request(`${this.bucketUrl}/${key}`, { method: 'DELETE' });
+      }
+    }
+  }
+
+  getBaseUrl(folder: string): string {
+    return `${this.publicUrl}/og/${folder}`;
+  }
+}
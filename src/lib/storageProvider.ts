@@ -0,0 +1,43 @@
+import { ImageFile } from './types';
+
+export type StorageProviderId = 'github' | 'ipfs' | 's3' | 'local';
+
+// Result of publishing a card's assets to a storage backend
+export interface StorageUploadResult {
+  baseUrl: string; // Value for og.baseUrl in the me.yodl record
+  files: { path: string; sha?: string }[];
+  commitSha?: string;
+}
+
+// A card previously published to a storage backend
+export interface StoredCard {
+  id: string; // Provider-specific identifier used for deletion
+  name: string;
+  baseUrl: string;
+  thumbnailUrl: string | null;
+}
+
+// Operations the wizard needs from a place that hosts card assets
+export interface StorageProvider {
+  readonly id: StorageProviderId;
+  readonly label: string;
+  uploadCard(folder: string, files: ImageFile[]): Promise<StorageUploadResult>;
+  listCards(): Promise<StoredCard[]>;
+  deleteCards(ids: string[]): Promise<void>;
+  // baseUrl a folder will be published at, or null when it is only known after upload (content addressed)
+  getBaseUrl(folder: string): string | null;
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64Content] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/png';
+  const bytes = Uint8Array.from(atob(base64Content), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+}
+
+// The card images that are ready to upload, as named PNG blobs
+export function getUploadableImages(files: ImageFile[]): { fileName: string; blob: Blob }[] {
+  return files
+    .filter(file => file.preview)
+    .map(file => ({ fileName: `${file.name}.png`, blob: dataUrlToBlob(file.preview!) }));
+}
@@ -0,0 +1,207 @@
+// Where the GitHub token is kept between page loads
+export type TokenPersistence = 'memory' | 'session' | 'remember';
+
+export interface StoredToken {
+  token: string;
+  expiresAt: number | null; // Epoch milliseconds, null when the token doesn't expire or it is unknown
+  login?: string; // Account the token belongs to, unknown until it has been validated
+  avatarUrl?: string;
+}
+
+// Every saved GitHub identity, and which one is in use
+export interface StoredAccounts {
+  activeLogin: string | null;
+  tokens: StoredToken[];
+}
+
+export interface TokenStore {
+  readonly persistence: TokenPersistence;
+  load(): Promise<StoredAccounts | null>;
+  save(accounts: StoredAccounts): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Data saved before multiple accounts were supported holds a single token
+const toStoredAccounts = (value: StoredAccounts | StoredToken): StoredAccounts =>
+  'tokens' in value ? value : { activeLogin: value.login ?? null, tokens: [value] };
+
+export const TOKEN_PERSISTENCE_OPTIONS: { id: TokenPersistence; label: string; description: string }[] = [
+  { id: 'memory', label: 'Session only', description: 'Forgotten when the page is reloaded or closed' },
+  { id: 'session', label: 'This tab', description: 'Kept until this tab is closed' },
+  { id: 'remember', label: 'Remember me', description: 'Kept encrypted in this browser until you sign out' },
+];
+
+const PERSISTENCE_KEY = 'github_token_persistence';
+const LEGACY_TOKEN_KEY = 'github_token'; // Plaintext token written by earlier versions
+const SESSION_TOKEN_KEY = 'github_token';
+const ENCRYPTED_TOKEN_KEY = 'github_token_encrypted';
+
+const KEY_DB_NAME = 'previewcard-yapp-keys';
+const KEY_STORE = 'keys';
+const TOKEN_KEY_ID = 'github-token';
+
+// Kept only in this page's memory
+export class MemoryTokenStore implements TokenStore {
+  readonly persistence = 'memory';
+  private stored: StoredAccounts | null = null;
+
+  async load(): Promise<StoredAccounts | null> {
+    return this.stored;
+  }
+
+  async save(accounts: StoredAccounts): Promise<void> {
+    this.stored = accounts;
+  }
+
+  async clear(): Promise<void> {
+    this.stored = null;
+  }
+}
+
+// Kept in sessionStorage, so it survives reloads but not closing the tab
+export class SessionTokenStore implements TokenStore {
+  readonly persistence = 'session';
+
+  async load(): Promise<StoredAccounts | null> {
+    const raw = sessionStorage.getItem(SESSION_TOKEN_KEY);
+    if (!raw) return null;
+    try {
+      return toStoredAccounts(JSON.parse(raw));
+    } catch (e) {
+      return null;
+    }
+  }
+
+  async save(accounts: StoredAccounts): Promise<void> {
+    sessionStorage.setItem(SESSION_TOKEN_KEY, JSON.stringify(accounts));
+  }
+
+  async clear(): Promise<void> {
+    sessionStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+}
+
+// AES-GCM encrypted in localStorage. The key is a non-extractable CryptoKey kept in IndexedDB,
+// so the stored token can't be read by dumping localStorage or copying it to another browser.
+export class EncryptedTokenStore implements TokenStore {
+  readonly persistence = 'remember';
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  private openKeyDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(KEY_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(KEY_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openKeyDatabase();
+    try {
+      return await new Promise((resolve, reject) => {
+        const transaction = db.transaction(KEY_STORE, mode);
+        const request = action(transaction.objectStore(KEY_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        const existing = await this.runRequest<CryptoKey | undefined>('readonly', store => store.get(TOKEN_KEY_ID));
+        if (existing) {
+          return existing;
+        }
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await this.runRequest('readwrite', store => store.put(key, TOKEN_KEY_ID));
+        return key;
+      })();
+      // Allow a later retry if IndexedDB failed
+      this.keyPromise.catch(() => {
+        this.keyPromise = null;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  async load(): Promise<StoredAccounts | null> {
+    const raw = localStorage.getItem(ENCRYPTED_TOKEN_KEY);
+    if (!raw) return null;
+
+    try {
+      const { iv, data } = JSON.parse(raw) as { iv: string; data: string };
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        await this.getKey(),
+        fromBase64(data)
+      );
+      return toStoredAccounts(JSON.parse(new TextDecoder().decode(plaintext)));
+    } catch (error) {
+      // The key was lost (e.g. site data partly cleared), so the token can't be recovered
+      console.error('Could not decrypt the stored GitHub token:', error);
+      localStorage.removeItem(ENCRYPTED_TOKEN_KEY);
+      return null;
+    }
+  }
+
+  async save(accounts: StoredAccounts): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getKey(),
+      new TextEncoder().encode(JSON.stringify(accounts))
+    );
+    localStorage.setItem(ENCRYPTED_TOKEN_KEY, JSON.stringify({ iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(ENCRYPTED_TOKEN_KEY);
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export function getTokenPersistence(): TokenPersistence {
+  const value = localStorage.getItem(PERSISTENCE_KEY);
+  return value === 'memory' || value === 'session' ? value : 'remember';
+}
+
+export function setTokenPersistence(persistence: TokenPersistence): void {
+  localStorage.setItem(PERSISTENCE_KEY, persistence);
+}
+
+export function createTokenStore(persistence: TokenPersistence = getTokenPersistence()): TokenStore {
+  switch (persistence) {
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'session':
+      return new SessionTokenStore();
+    default:
+      return new EncryptedTokenStore();
+  }
+}
+
+// Moves a plaintext token left by earlier versions into the encrypted store
+export async function migrateLegacyToken(store: TokenStore): Promise<void> {
+  const legacyToken = localStorage.getItem(LEGACY_TOKEN_KEY);
+  if (!legacyToken) return;
+
+  localStorage.removeItem(LEGACY_TOKEN_KEY);
+  if (store.persistence === 'remember' && !(await store.load())) {
+    await store.save({ activeLogin: null, tokens: [{ token: legacyToken, expiresAt: null }] });
+  }
+}
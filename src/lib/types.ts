@@ -1,3 +1,5 @@
+import type { YodlRecord } from './yodlRecordSchema';
+
 // Step types
 export type Step = {
   id: string;
@@ -22,14 +24,8 @@ export type PreviewData = {
   };
 };
 
-// ENS Record types
-export type ENSRecord = {
-  tokenSymbols?: string[];
-  og?: {
-    baseUrl: string;
-  };
-  [key: string]: any;
-};
+// ENS Record types, validated by yodlRecordSchema
+export type ENSRecord = YodlRecord;
 
 // Folder path type
 export type FolderPath = {
@@ -37,3 +33,14 @@ export type FolderPath = {
   repo: string;
   folder: string;
 };
+
+// Pull request proposing a card's assets, used instead of committing to the default branch
+export type CardPullRequest = {
+  owner: string;
+  repo: string;
+  number: number;
+  htmlUrl: string;
+  branch: string;
+  state: 'open' | 'closed' | 'merged';
+  mergeCommitSha: string | null;
+};
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+// Common chains and tokens offered in the form; records may list others
+export const YODL_CHAINS = [
+  { id: 'eth', label: 'Ethereum' },
+  { id: 'base', label: 'Base' },
+  { id: 'arb1', label: 'Arbitrum One' },
+  { id: 'oeth', label: 'Optimism' },
+  { id: 'pol', label: 'Polygon' },
+  { id: 'gno', label: 'Gnosis' },
+  { id: 'bnb', label: 'BNB Chain' },
+] as const;
+
+export const YODL_TOKENS = ['USDC', 'USDT', 'USDGLO', 'DAI', 'EURC', 'ETH', 'WETH'] as const;
+
+// Services a payment notification can be sent to, keyed the same way in the webhooks object
+export const YODL_WEBHOOK_TYPES = [
+  { id: 'x', label: 'X (Twitter)' },
+  { id: 'whatsapp', label: 'WhatsApp' },
+] as const;
+
+const httpsUrl = z.string().url('Must be a valid URL').refine(
+  url => url.startsWith('https://'),
+  'Must use https://'
+);
+
+// og.baseUrl may also point at content-addressed storage (ipfs://) or a dev server
+const assetBaseUrl = z.string().url('Must be a valid URL').refine(
+  url => /^(https?|ipfs):\/\//.test(url),
+  'Must be an https://, http:// or ipfs:// URL'
+).refine(url => !url.endsWith('/'), 'Must not end with a slash');
+
+// Schema for the JSON stored in the me.yodl ENS text record
+export const yodlRecordSchema = z.object({
+  // Only the format is checked, so symbols such as cbBTC or USDC.e and new chains are accepted
+  tokenSymbols: z.array(
+    z.string().regex(/^\S+$/, 'Token symbols must not be empty or contain spaces')
+  ).min(1, 'List at least one token').optional(),
+  chains: z.array(
+    z.string().regex(/^[a-z0-9-]+$/, 'Chains are short names such as eth or base')
+  ).min(1, 'List at least one chain').optional(),
+  redirect: httpsUrl.optional(),
+  webhooks: z.object({
+    x: httpsUrl.optional(),
+    whatsapp: httpsUrl.optional(),
+  }).strict('Webhook types are x and whatsapp').optional(),
+  og: z.object({
+    baseUrl: assetBaseUrl,
+  }).passthrough().optional(),
+}).passthrough();
+
+export type YodlRecord = z.infer<typeof yodlRecordSchema>;
+
+export const KNOWN_YODL_FIELDS = Object.keys(yodlRecordSchema.shape);
+
+export interface YodlFieldError {
+  path: string; // Dotted path such as "webhooks.x"
+  message: string;
+}
+
+// Errors in og, the only part of the record this app writes. Others belong to fields it leaves as they are.
+export const isOgError = (error: YodlFieldError) => error.path === 'og' || error.path.startsWith('og.');
+
+export interface YodlRecordValidation {
+  record: YodlRecord | null; // Parsed record, null when the JSON itself is invalid
+  syntaxError: string | null;
+  errors: YodlFieldError[];
+  unknownKeys: string[]; // Top-level keys the schema doesn't know about, kept as-is
+}
+
+// Validate an already parsed me.yodl value
+export function validateYodlRecord(value: unknown): YodlRecordValidation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { record: null, syntaxError: null, errors: [{ path: '', message: 'Record must be a JSON object' }], unknownKeys: [] };
+  }
+
+  const result = yodlRecordSchema.safeParse(value);
+  const errors = result.success
+    ? []
+    : result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+
+  return {
+    record: value as YodlRecord,
+    syntaxError: null,
+    errors,
+    unknownKeys: Object.keys(value).filter(key => !KNOWN_YODL_FIELDS.includes(key)),
+  };
+}
+
+// Parse and validate me.yodl JSON text
+export function validateYodlRecordJson(json: string): YodlRecordValidation {
+  try {
+    return validateYodlRecord(JSON.parse(json));
+  } catch (error) {
+    return {
+      record: null,
+      syntaxError: error instanceof Error ? error.message : 'Invalid JSON',
+      errors: [],
+      unknownKeys: [],
+    };
+  }
+}
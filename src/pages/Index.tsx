@@ -6,9 +6,30 @@ import PreviewCard from '@/components/PreviewCard';
 import JsonEditor from '@/components/JsonEditor';
 import WalletConnect from '@/components/WalletConnect';
 import EnsUpdater from '@/components/EnsUpdater';
-import { ImageFile, PreviewData, Step, FolderPath } from '@/lib/types';
+import EnsRecordWriter from '@/components/EnsRecordWriter';
+import EnsFeatures from '@/components/EnsFeatures';
+import RecordHistory from '@/components/RecordHistory';
+import EnsLookup from '@/components/EnsLookup';
+import DraftManager from '@/components/DraftManager';
+import CardGallery from '@/components/CardGallery';
+import { ImageFile, PreviewData, Step, FolderPath, CardPullRequest } from '@/lib/types';
+import { getCardSources } from '@/lib/cardCompositor';
+import { buildJsDelivrBaseUrl } from '@/lib/cdnUrl';
+import { StorageProviderId } from '@/lib/storageProvider';
+import { DraftStorageService, WizardDraft } from '@/lib/draftStorageService';
 import { ArrowLeft, ArrowRight } from "lucide-react";
+import { mainnet } from 'wagmi/chains';
 import { useToast } from '@/components/ui/use-toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 const steps: Step[] = [
   {
@@ -34,25 +55,65 @@ const Index = () => {
   const [files, setFiles] = useState<ImageFile[]>([]);
   const [previewData, setPreviewData] = useState<PreviewData | null>(null);
   const [folderPath, setFolderPath] = useState<FolderPath | null>(null);
+  const [pinnedRef, setPinnedRef] = useState<string | null>(null);
+  const [storageProvider, setStorageProvider] = useState<StorageProviderId>('github');
+  // baseUrl published by a non-GitHub storage backend, replaces the jsDelivr URL
+  const [storageBaseUrl, setStorageBaseUrl] = useState<string | null>(null);
+  // Set when the assets were proposed in a pull request; the ENS step waits for it to be merged
+  const [pullRequest, setPullRequest] = useState<CardPullRequest | null>(null);
   const [ensName, setEnsName] = useState<string | null>(null);
+  const [ensChainId, setEnsChainId] = useState<number>(mainnet.id);
+  const [draftId, setDraftId] = useState(() => DraftStorageService.createDraftId());
+  const [draftName, setDraftName] = useState('Untitled card');
+  // Bumped whenever a draft is loaded so step components remount with the restored state
+  const [draftVersion, setDraftVersion] = useState(0);
+  const [resumeDraft, setResumeDraft] = useState<WizardDraft | null>(null);
+
+  // Offer to resume the last session on load
+  useEffect(() => {
+    DraftStorageService.getInstance().getLastDraft()
+      .then(draft => {
+        if (draft && draft.images.some(image => image.blob)) {
+          setResumeDraft(draft);
+        }
+      })
+      .catch(error => console.error('Error loading last draft:', error));
+  }, []);
+
+  // Autosave the session shortly after each change
+  useEffect(() => {
+    const hasContent = files.some(f => f.preview) || !!folderPath?.repo;
+    if (!hasContent) return;
+
+    const timeoutId = setTimeout(() => {
+      DraftStorageService.getInstance().saveDraft({
+        id: draftId,
+        name: draftName,
+        updatedAt: Date.now(),
+        activeStep,
+        folderPath,
+        pinnedRef,
+        storageProvider,
+        storageBaseUrl,
+        pullRequest,
+        images: DraftStorageService.toStoredImages(files),
+      }).catch(error => console.error('Error saving draft:', error));
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [files, folderPath, pinnedRef, storageProvider, storageBaseUrl, pullRequest, activeStep, draftId, draftName]);
 
   // Update preview data when files or folder path changes
   useEffect(() => {
     if (files.length > 0) {
-      const filesData = {
-        inner: files.find(f => f.name === 'inner')?.preview || null,
-        outer: files.find(f => f.name === 'outer')?.preview || null,
-        overlay: files.find(f => f.name === 'overlay')?.preview || null,
-      };
+      const filesData = getCardSources(files);
       
       setPreviewData({
-        baseUrl: folderPath 
-          ? `https://cdn.jsdelivr.net/gh/${folderPath.username}/${folderPath.repo}/og/${folderPath.folder}`
-          : '',
+        baseUrl: storageBaseUrl || (folderPath ? buildJsDelivrBaseUrl(folderPath, pinnedRef) : ''),
         files: filesData
       });
     }
-  }, [files, folderPath]);
+  }, [files, folderPath, pinnedRef, storageBaseUrl]);
 
   const handleFilesChange = (newFiles: ImageFile[]) => {
     setFiles(newFiles);
@@ -62,6 +123,65 @@ const Index = () => {
     setFolderPath(path);
   };
 
+  const handleStorageChange = (providerId: StorageProviderId, baseUrl: string | null) => {
+    setStorageProvider(providerId);
+    setStorageBaseUrl(baseUrl);
+  };
+
+  const loadDraft = async (draft: WizardDraft) => {
+    try {
+      const restoredFiles = await DraftStorageService.fromStoredImages(draft.images);
+      setFiles(restoredFiles);
+      setFolderPath(draft.folderPath);
+      setPinnedRef(draft.pinnedRef || null);
+      setStorageProvider(draft.storageProvider || 'github');
+      setStorageBaseUrl(draft.storageBaseUrl || null);
+      setPullRequest(draft.pullRequest || null);
+      // Same gate as handleNext: the ENS step stays locked until the pull request is merged
+      const awaitingMerge = (draft.storageProvider || 'github') === 'github' && draft.pullRequest && draft.pullRequest.state !== 'merged';
+      setActiveStep(awaitingMerge ? Math.min(draft.activeStep, 1) : draft.activeStep);
+      setDraftId(draft.id);
+      setDraftName(draft.name);
+      setDraftVersion(v => v + 1);
+      toast({ title: "Draft restored", description: `Continuing "${draft.name}".` });
+    } catch (error) {
+      console.error('Error restoring draft:', error);
+      toast({
+        title: "Could not restore draft",
+        description: "The saved images could not be read.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Load a published card so it can be edited and re-published to the same folder
+  const handleCardLoad = (loadedFiles: ImageFile[], path: FolderPath) => {
+    // The loaded card becomes its own draft instead of overwriting the current one
+    setDraftId(DraftStorageService.createDraftId());
+    setFiles(loadedFiles);
+    setFolderPath(path);
+    setPinnedRef(null);
+    setStorageProvider('github');
+    setStorageBaseUrl(null);
+    setPullRequest(null);
+    setDraftName(path.folder);
+    setDraftVersion(v => v + 1);
+  };
+
+  const startNewDraft = () => {
+    setFiles([]);
+    setPreviewData(null);
+    setFolderPath(null);
+    setPinnedRef(null);
+    setStorageProvider('github');
+    setStorageBaseUrl(null);
+    setPullRequest(null);
+    setActiveStep(0);
+    setDraftId(DraftStorageService.createDraftId());
+    setDraftName('Untitled card');
+    setDraftVersion(v => v + 1);
+  };
+
   const handleNext = () => {
     if (activeStep < steps.length - 1) {
       // Validate current step before proceeding
@@ -81,7 +201,16 @@ const Index = () => {
         }
       }
       
-      if (activeStep === 1 && (!folderPath || !folderPath.username || !folderPath.repo)) {
+      if (activeStep === 1 && storageProvider !== 'github' && !storageBaseUrl) {
+        toast({
+          title: "Assets not uploaded",
+          description: "Please upload your assets to the selected storage backend.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (activeStep === 1 && storageProvider === 'github' && (!folderPath || !folderPath.username || !folderPath.repo)) {
         toast({
           title: "Missing repository information",
           description: "Please enter GitHub username and repository name.",
@@ -89,6 +218,17 @@ const Index = () => {
         });
         return;
       }
+
+      if (activeStep === 1 && storageProvider === 'github' && pullRequest && pullRequest.state !== 'merged') {
+        toast({
+          title: pullRequest.state === 'closed' ? "Pull request closed" : "Pull request not merged yet",
+          description: pullRequest.state === 'closed'
+            ? `Pull request #${pullRequest.number} was closed without merging. Upload the assets again to continue.`
+            : `The card goes live once pull request #${pullRequest.number} is merged.`,
+          variant: "destructive"
+        });
+        return;
+      }
       
       setActiveStep(activeStep + 1);
     }
@@ -103,16 +243,45 @@ const Index = () => {
   const renderStepContent = () => {
     switch (activeStep) {
       case 0:
-        return <FileUpload onFilesChange={handleFilesChange} />;
+        return (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <CardGallery onCardLoad={handleCardLoad} />
+            </div>
+            <FileUpload key={draftVersion} onFilesChange={handleFilesChange} initialFiles={files} />
+          </div>
+        );
       case 1:
         return <PreviewCard 
+          key={draftVersion}
+          initialFolderPath={folderPath}
+          initialPinnedRef={pinnedRef}
+          onPinnedRefChange={setPinnedRef}
+          initialStorageProvider={storageProvider}
+          initialStorageBaseUrl={storageBaseUrl}
+          onStorageChange={handleStorageChange}
+          initialPullRequest={pullRequest}
+          onPullRequestChange={setPullRequest}
           previewData={previewData} 
           onFolderPathChange={handleFolderPathChange} 
           files={files}
           ensName={ensName}
         />;
       case 2:
-        return <EnsUpdater previewData={previewData} />;
+        return (
+          <div className="space-y-6">
+            <EnsRecordWriter
+              previewData={previewData}
+              onEnsNameLoaded={(name, chainId) => {
+                setEnsName(name);
+                setEnsChainId(chainId);
+              }}
+            />
+            <EnsUpdater previewData={previewData} />
+            {ensName && <RecordHistory ensName={ensName} chainId={ensChainId} />}
+            {ensName && <EnsFeatures ensName={ensName} chainId={ensChainId} />}
+          </div>
+        );
       default:
         return null;
     }
@@ -124,6 +293,14 @@ const Index = () => {
         <div className="container py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold gradient-text">Preview Card Yapp</h1>
           <div className="flex items-center space-x-2">
+            <EnsLookup />
+            <DraftManager
+              currentDraftId={draftId}
+              currentDraftName={draftName}
+              onRename={setDraftName}
+              onSelect={loadDraft}
+              onNew={startNewDraft}
+            />
             <WalletConnect />
           </div>
         </div>
@@ -171,6 +348,27 @@ const Index = () => {
         </div>
       </main>
       
+      <AlertDialog open={!!resumeDraft} onOpenChange={(open) => !open && setResumeDraft(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Resume previous card?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You have an unfinished draft "{resumeDraft?.name}" from{' '}
+              {resumeDraft ? new Date(resumeDraft.updatedAt).toLocaleString() : ''}.
+              Would you like to continue where you left off?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => DraftStorageService.getInstance().clearLastDraft()}>
+              Start Fresh
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={() => resumeDraft && loadDraft(resumeDraft)}>
+              Resume
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       <footer className="border-t border-border py-4">
         <div className="container text-center text-sm text-muted-foreground">
           <p>Preview Card Yapp - Customize your Yodl preview cards</p>
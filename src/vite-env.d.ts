@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAINNET_RPC_URL?: string;
+  readonly VITE_LOCAL_RPC_URL?: string;
+  readonly VITE_LOCAL_ENS_REGISTRY?: string;
+  readonly VITE_ENS_NETWORKS?: string;
+  readonly VITE_OPTIMISM_L2_RESOLVER?: string;
+  readonly VITE_NAME_INDEXER?: string;
+  readonly VITE_ENS_SUBGRAPH_URL?: string;
+  readonly VITE_PRICE_SOURCE?: string;
+  readonly VITE_FIXED_ETH_PRICE?: string;
+  readonly VITE_FIAT_CURRENCY?: string;
+  readonly VITE_GITHUB_CLIENT_ID?: string;
+  readonly VITE_GITHUB_OAUTH_URL?: string;
+}
@@ -1,6 +1,7 @@
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
 
 // Get the hostname from the URL or environment
@@ -23,6 +24,73 @@ function getBasePath(mode: string) {
   return '/previewcard-yapp/';
 }
 
+// Dev-only storage backend for LocalStorageProvider: serves and writes card
+// assets under .og-storage/og/<folder>/<file> through /__og-storage
+function localOgStorage(): Plugin {
+  const root = path.resolve(__dirname, ".og-storage");
+
+  return {
+    name: "local-og-storage",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/__og-storage", (req, res) => {
+        const urlPath = decodeURIComponent((req.url || "/").split("?")[0]);
+        const target = path.resolve(root, "." + urlPath);
+        if (urlPath.includes("..") || !target.startsWith(root)) {
+          res.statusCode = 400;
+          res.end("Invalid path");
+          return;
+        }
+
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        try {
+          if (req.method === "PUT") {
+            const chunks: Buffer[] = [];
+            req.on("data", (chunk: Buffer) => chunks.push(chunk));
+            req.on("end", () => {
+              fs.mkdirSync(path.dirname(target), { recursive: true });
+              fs.writeFileSync(target, Buffer.concat(chunks));
+              res.statusCode = 201;
+              res.end();
+            });
+            return;
+          }
+
+          if (req.method === "DELETE") {
+            fs.rmSync(target, { recursive: true, force: true });
+            res.statusCode = 204;
+            res.end();
+            return;
+          }
+
+          // Directories are listed as JSON arrays of their sub-folders
+          const isDirectory = fs.existsSync(target) && fs.statSync(target).isDirectory();
+          if (isDirectory || urlPath === "/og") {
+            const folders = isDirectory
+              ? fs.readdirSync(target, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name)
+              : [];
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify(folders));
+            return;
+          }
+
+          if (!fs.existsSync(target)) {
+            res.statusCode = 404;
+            res.end("Not found");
+            return;
+          }
+
+          res.setHeader("Content-Type", "image/png");
+          res.end(fs.readFileSync(target));
+        } catch (error) {
+          res.statusCode = 500;
+          res.end(error instanceof Error ? error.message : "Storage error");
+        }
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   // Dynamically set the base path based on environment
@@ -30,11 +98,21 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // GitHub's device flow endpoints don't allow browser requests (no CORS), so the dev server relays them
+    proxy: {
+      "/__github-oauth": {
+        target: "https://github.com",
+        changeOrigin: true,
+        rewrite: (requestPath) => requestPath.replace(/^\/__github-oauth/, ""),
+      },
+    },
   },
   plugins: [
     react(),
     mode === 'development' &&
     componentTagger(),
+    mode === 'development' &&
+    localOgStorage(),
   ].filter(Boolean),
   resolve: {
     alias: {